@@ -0,0 +1,142 @@
+// Service worker: keeps the app shell and recently played snippets available
+// offline. Registered from src/lib/offline.ts in production builds only.
+
+const VERSION = 'v1';
+const SHELL_CACHE = `wavelength-shell-${VERSION}`;
+// API responses depend on who asked, so each user gets their own cache,
+// named API_CACHE_PREFIX + user id
+const API_CACHE_PREFIX = `wavelength-api-${VERSION}-`;
+// Audio is immutable per URL, so it survives new versions of the worker.
+// Must match AUDIO_CACHE in src/lib/offline.ts.
+const AUDIO_CACHE = 'wavelength-audio';
+const MAX_AUDIO_ENTRIES = 60;
+
+const SHELL_URLS = ['/'];
+const AUDIO_PATH = '/storage/v1/object/public/audio-snippets/';
+const API_PATH = '/rest/v1/';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  const current = new Set([SHELL_CACHE, AUDIO_CACHE]);
+  const isOld = name => name.startsWith('wavelength-') && !current.has(name) && !name.startsWith(API_CACHE_PREFIX);
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(isOld).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.pathname.includes(AUDIO_PATH)) {
+    event.respondWith(audioResponse(request));
+  } else if (url.pathname.includes(API_PATH)) {
+    event.respondWith(apiResponse(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')) {
+    // Build assets have content hashes in their names
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Only the current user's responses are kept: a request from anyone else,
+// including a signed-out visitor, drops every other user's cache first.
+async function apiResponse(request) {
+  const cacheName = API_CACHE_PREFIX + (tokenSubject(request.headers.get('Authorization')) || 'anon');
+  const names = await caches.keys();
+  await Promise.all(
+    names.filter(name => name.startsWith(API_CACHE_PREFIX) && name !== cacheName).map(name => caches.delete(name))
+  );
+  return networkFirst(request, cacheName);
+}
+
+// The user id in a Supabase access token. The anon key has none. The worker
+// never trusts this for anything but picking a cache.
+function tokenSubject(authorization) {
+  const payload = (authorization || '').replace(/^Bearer /, '').split('.')[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const { sub } = JSON.parse(json);
+    return typeof sub === 'string' ? sub : null;
+  } catch {
+    return null;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+// Media elements ask for byte ranges, which the Cache API can't store. Fetch
+// and cache the whole file once, then answer ranges from the cached copy.
+async function audioResponse(request) {
+  const cache = await caches.open(AUDIO_CACHE);
+  let response = await cache.match(request.url);
+
+  if (!response) {
+    response = await fetch(request.url, { mode: 'cors', credentials: 'omit' });
+    if (!response.ok) return response;
+    await cache.put(request.url, response.clone());
+    trimCache(cache);
+  }
+
+  return sliceRange(request, response);
+}
+
+async function trimCache(cache) {
+  const keys = await cache.keys();
+  // Keys come back in insertion order, oldest first
+  await Promise.all(keys.slice(0, Math.max(keys.length - MAX_AUDIO_ENTRIES, 0)).map(key => cache.delete(key)));
+}
+
+async function sliceRange(request, response) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+  if (!match || (!match[1] && !match[2])) return response;
+
+  const blob = await response.blob();
+  const start = match[1] ? Number(match[1]) : Math.max(blob.size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), blob.size - 1) : blob.size - 1;
+  if (start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${blob.size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || blob.type,
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
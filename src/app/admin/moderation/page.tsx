@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import ModerationQueue from '@/components/ModerationQueue';
+
+export const metadata: Metadata = {
+  title: 'Moderation - Wavelength',
+  robots: { index: false, follow: false },
+};
+
+// Access is checked by the /api/moderation routes; this page only renders
+// what they return.
+export default function ModerationPage() {
+  return (
+    <div className="min-h-screen bg-black">
+      <ModerationQueue />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { getRequestUser, getTokenUser } from '@/lib/apiAuth';
+import {
+  AnalyticsErrorBody,
+  AnalyticsErrorCode,
+  AnalyticsEvent,
+  AnalyticsEventsResponse,
+  MAX_EVENTS_PER_BATCH,
+  parseAnalyticsEvent,
+} from '@/lib/analytics';
+
+const MAX_SESSION_ID_LENGTH = 64;
+// Far more than a listener swiping quickly sends; anything past it would
+// only skew the stats and the ranking inputs
+const MAX_EVENTS_PER_MINUTE = 600;
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(status: number, code: AnalyticsErrorCode, message: string) {
+  return NextResponse.json<AnalyticsErrorBody>({ error: { code, message } }, { status });
+}
+
+// Ingests a batch of playback events from the feed. The feed always has a
+// session, so anonymous requests are turned away.
+export async function POST(request: Request) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_batch', 'Expected a JSON body.');
+  }
+
+  const sessionId = body?.session_id;
+  if (typeof sessionId !== 'string' || !sessionId || sessionId.length > MAX_SESSION_ID_LENGTH) {
+    return errorResponse(400, 'invalid_batch', 'Expected a session_id.');
+  }
+  if (!Array.isArray(body.events)) {
+    return errorResponse(400, 'invalid_batch', 'Expected an events array.');
+  }
+  if (body.events.length > MAX_EVENTS_PER_BATCH) {
+    return errorResponse(413, 'too_many_events', `Send at most ${MAX_EVENTS_PER_BATCH} events at a time.`);
+  }
+
+  // Malformed events are dropped rather than failing the rest of the batch
+  const events = body.events.flatMap(value => {
+    const event = parseAnalyticsEvent(value);
+    return event ? [event] : [];
+  });
+  if (events.length < body.events.length) {
+    console.warn('POST /api/events: Dropped malformed events', { count: body.events.length - events.length });
+  }
+
+  const caller = await getRequestUser(request)
+    ?? (typeof body.token === 'string' ? await getTokenUser(body.token) : null);
+  if (!caller) {
+    return errorResponse(401, 'unauthorized', 'Sign in to send events.');
+  }
+
+  try {
+    const since = new Date(Date.now() - 60_000).toISOString();
+    const { count, error: countError } = await supabaseAdmin
+      .from('playback_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', caller.user.id)
+      .gte('received_at', since);
+    if (countError) throw countError;
+    if ((count ?? 0) + events.length > MAX_EVENTS_PER_MINUTE) {
+      console.warn('POST /api/events: Rate limited', { user: caller.user.id });
+      return errorResponse(429, 'rate_limited', 'Too many events. Please slow down.');
+    }
+
+    // Events for snippets deleted since they were played would fail the
+    // foreign key, so keep only those that still exist
+    const snippetIds = Array.from(new Set(events.map(event => event.snippet_id)));
+    const { data: existing, error: lookupError } = snippetIds.length
+      ? await supabaseAdmin.from('snippets').select('id').in('id', snippetIds)
+      : { data: [], error: null };
+    if (lookupError) throw lookupError;
+
+    const existingIds = new Set((existing as { id: string }[]).map(row => row.id));
+    const rows = events
+      .filter(event => existingIds.has(event.snippet_id))
+      .map(event => toEventRow(event, sessionId, caller.user.id));
+
+    if (rows.length) {
+      const { error } = await supabaseAdmin.from('playback_events').insert(rows);
+      if (error) throw error;
+    }
+
+    return NextResponse.json<AnalyticsEventsResponse>({ accepted: rows.length }, { status: 202 });
+  } catch (error) {
+    console.error('POST /api/events: Insert failed', error);
+    return errorResponse(500, 'server_error', 'Could not record the events.');
+  }
+}
+
+function toEventRow(event: AnalyticsEvent, sessionId: string, userId: string) {
+  const { type, snippet_id, at, ...fields } = event;
+  return { type, snippet_id, occurred_at: at, session_id: sessionId, user_id: userId, ...fields };
+}
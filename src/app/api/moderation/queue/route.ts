@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { SNIPPET_COLUMNS, SnippetRow, toAudioSnippet } from '@/lib/snippets';
+import { ModerationQueueItem, ModerationQueueResponse, ReportReason } from '@/lib/moderation';
+import { authorizeModerator, moderationErrorResponse } from '@/lib/moderationAuth';
+
+export const dynamic = 'force-dynamic';
+
+const QUEUE_LIMIT = 50;
+
+type QueueRow = SnippetRow & { report_count: number; reviewed_at: string | null };
+
+// Reported snippets, most reported first, with what they were reported for.
+export async function GET(request: Request) {
+  const moderator = await authorizeModerator(request, 'GET /api/moderation/queue');
+  if (moderator instanceof NextResponse) return moderator;
+
+  const { data, error } = await supabaseAdmin
+    .from('snippets')
+    .select(`${SNIPPET_COLUMNS}, report_count, reviewed_at`)
+    .gt('report_count', 0)
+    .order('report_count', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(QUEUE_LIMIT);
+
+  if (error) {
+    console.error('GET /api/moderation/queue: Query failed', error);
+    return moderationErrorResponse(500, 'server_error', 'Could not load the queue.');
+  }
+
+  const rows = data as unknown as QueueRow[];
+  const snippetIds = rows.map(row => row.id);
+  const ownerIds = Array.from(new Set(rows.flatMap(row => (row.owner_id ? [row.owner_id] : []))));
+
+  const [reports, bans] = await Promise.all([
+    supabaseAdmin.from('snippet_reports').select('snippet_id, reason, created_at').in('snippet_id', snippetIds),
+    supabaseAdmin.from('banned_users').select('user_id').in('user_id', ownerIds),
+  ]);
+
+  if (reports.error || bans.error) {
+    console.error('GET /api/moderation/queue: Detail lookup failed', reports.error ?? bans.error);
+    return moderationErrorResponse(500, 'server_error', 'Could not load the queue.');
+  }
+
+  const bannedIds = new Set(bans.data.map(ban => ban.user_id as string));
+  const items = rows.map<ModerationQueueItem>(row => {
+    const reasons: Partial<Record<ReportReason, number>> = {};
+    for (const report of reports.data) {
+      // Only reports since the last review count towards the current total
+      if (report.snippet_id !== row.id) continue;
+      if (row.reviewed_at && report.created_at <= row.reviewed_at) continue;
+      const reason = report.reason as ReportReason;
+      reasons[reason] = (reasons[reason] ?? 0) + 1;
+    }
+    return {
+      snippet: toAudioSnippet(row),
+      report_count: row.report_count,
+      reasons,
+      owner_banned: !!row.owner_id && bannedIds.has(row.owner_id),
+    };
+  });
+
+  return NextResponse.json<ModerationQueueResponse>({ items });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { isUuid } from '@/lib/ids';
+import { authorizeModerator, moderationErrorResponse } from '@/lib/moderationAuth';
+
+export const dynamic = 'force-dynamic';
+
+// Puts a reported snippet back in the feed. Its report count starts over, so
+// it takes a fresh round of reports to hide it again.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const moderator = await authorizeModerator(request, 'POST /api/moderation/snippets/restore');
+  if (moderator instanceof NextResponse) return moderator;
+
+  if (!isUuid(params.id)) {
+    return moderationErrorResponse(404, 'not_found', 'That snippet no longer exists.');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('snippets')
+    .update({ hidden: false, report_count: 0, reviewed_at: new Date().toISOString() })
+    .eq('id', params.id)
+    .select('id');
+
+  if (error) {
+    console.error('POST /api/moderation/snippets/restore: Update failed', error);
+    return moderationErrorResponse(500, 'server_error', 'Could not restore the snippet.');
+  }
+  if (!data.length) {
+    return moderationErrorResponse(404, 'not_found', 'That snippet no longer exists.');
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { isUuid } from '@/lib/ids';
+import { authorizeModerator, moderationErrorResponse } from '@/lib/moderationAuth';
+import { STORED_AUDIO_COLUMNS, StoredAudio, removeStoredAudio } from '@/lib/snippetStorage';
+
+export const dynamic = 'force-dynamic';
+
+// Deletes any snippet, with its replies and audio.
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const moderator = await authorizeModerator(request, 'DELETE /api/moderation/snippets');
+  if (moderator instanceof NextResponse) return moderator;
+
+  if (!isUuid(params.id)) {
+    return moderationErrorResponse(404, 'not_found', 'That snippet no longer exists.');
+  }
+
+  const { data: replies, error: repliesError } = await supabaseAdmin
+    .from('snippets')
+    .select(STORED_AUDIO_COLUMNS)
+    .eq('parent_id', params.id);
+
+  if (repliesError) {
+    console.error('DELETE /api/moderation/snippets: Reply lookup failed', repliesError);
+    return moderationErrorResponse(500, 'server_error', 'Could not delete the snippet.');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('snippets')
+    .delete()
+    .eq('id', params.id)
+    .select(STORED_AUDIO_COLUMNS);
+
+  if (error) {
+    console.error('DELETE /api/moderation/snippets: Delete failed', error);
+    return moderationErrorResponse(500, 'server_error', 'Could not delete the snippet.');
+  }
+
+  const row = (data as StoredAudio[])[0];
+  if (!row) {
+    return moderationErrorResponse(404, 'not_found', 'That snippet no longer exists.');
+  }
+
+  console.log('DELETE /api/moderation/snippets: Deleted', { id: params.id, by: moderator.user.id });
+  await removeStoredAudio([row, ...(replies as StoredAudio[])], 'DELETE /api/moderation/snippets');
+
+  return new NextResponse(null, { status: 204 });
+}
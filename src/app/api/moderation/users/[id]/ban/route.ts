@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { isUuid } from '@/lib/ids';
+import { authorizeModerator, moderationErrorResponse } from '@/lib/moderationAuth';
+
+export const dynamic = 'force-dynamic';
+
+// Stops a user publishing, from their account and from anonymous accounts at
+// the addresses they published from, and hides everything they've published.
+// Their snippets stay in the database so a mistaken ban can be undone by hand.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const moderator = await authorizeModerator(request, 'POST /api/moderation/users/ban');
+  if (moderator instanceof NextResponse) return moderator;
+
+  if (!isUuid(params.id)) {
+    return moderationErrorResponse(404, 'not_found', 'That user no longer exists.');
+  }
+
+  if (params.id === moderator.user.id) {
+    return moderationErrorResponse(403, 'forbidden', "You can't ban yourself.");
+  }
+
+  const { error: banError } = await supabaseAdmin
+    .from('banned_users')
+    .upsert({ user_id: params.id, banned_by: moderator.user.id }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+  if (banError) {
+    // foreign_key_violation: no such user
+    if (banError.code === '23503') {
+      return moderationErrorResponse(404, 'not_found', 'That user no longer exists.');
+    }
+    console.error('POST /api/moderation/users/ban: Ban failed', banError);
+    return moderationErrorResponse(500, 'server_error', 'Could not ban the user.');
+  }
+
+  // Anonymous accounts made from the same addresses are banned too; see
+  // supabase/migrations/20261019143000_moderation_abuse.sql
+  const { data: addresses, error: addressError } = await supabaseAdmin
+    .from('user_addresses')
+    .select('address_hash')
+    .eq('user_id', params.id);
+
+  if (addressError) {
+    console.error('POST /api/moderation/users/ban: Address lookup failed', addressError);
+    return moderationErrorResponse(500, 'server_error', 'The user is banned, but their addresses could not be.');
+  }
+
+  if (addresses.length) {
+    const { error: addressBanError } = await supabaseAdmin
+      .from('banned_addresses')
+      .upsert(
+        addresses.map(row => ({ address_hash: row.address_hash as string, banned_user_id: params.id })),
+        { onConflict: 'address_hash', ignoreDuplicates: true }
+      );
+
+    if (addressBanError) {
+      console.error('POST /api/moderation/users/ban: Banning addresses failed', addressBanError);
+      return moderationErrorResponse(500, 'server_error', 'The user is banned, but their addresses could not be.');
+    }
+  }
+
+  const { error: hideError } = await supabaseAdmin
+    .from('snippets')
+    .update({ hidden: true })
+    .eq('owner_id', params.id);
+
+  if (hideError) {
+    console.error('POST /api/moderation/users/ban: Hiding snippets failed', hideError);
+    return moderationErrorResponse(500, 'server_error', 'The user is banned, but their snippets could not be hidden.');
+  }
+
+  console.log('POST /api/moderation/users/ban: Banned', { id: params.id, by: moderator.user.id });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { createUserClient, getRequestUser } from '@/lib/apiAuth';
+import { isUuid } from '@/lib/ids';
+import { STORED_AUDIO_COLUMNS, StoredAudio, removeStoredAudio } from '@/lib/snippetStorage';
+
+export const dynamic = 'force-dynamic';
+
+type SnippetDeleteErrorCode = 'unauthorized' | 'not_found' | 'server_error';
+
+function errorResponse(status: number, code: SnippetDeleteErrorCode, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const caller = await getRequestUser(request);
+  if (!caller) {
+    return errorResponse(401, 'unauthorized', 'Sign in to delete recordings.');
+  }
+
+  // Anything else would fail the uuid cast in the database
+  if (!isUuid(params.id)) {
+    return errorResponse(404, 'not_found', 'That recording does not exist or is not yours.');
+  }
+
+  // Replies are deleted with their parent by the foreign key; note their
+  // audio first so it can be cleaned up too
+  const { data: replies, error: repliesError } = await supabaseAdmin
+    .from('snippets')
+    .select(STORED_AUDIO_COLUMNS)
+    .eq('parent_id', params.id);
+
+  if (repliesError) {
+    console.error('DELETE /api/snippets: Reply lookup failed', repliesError);
+    return errorResponse(500, 'server_error', 'Could not delete the recording. Please try again.');
+  }
+
+  // Deleting as the caller lets row-level security decide ownership: a
+  // snippet that exists but belongs to someone else simply isn't deleted
+  const { data, error } = await createUserClient(caller.token)
+    .from('snippets')
+    .delete()
+    .eq('id', params.id)
+    .select(STORED_AUDIO_COLUMNS);
+
+  if (error) {
+    console.error('DELETE /api/snippets: Delete failed', error);
+    return errorResponse(500, 'server_error', 'Could not delete the recording. Please try again.');
+  }
+
+  const row = (data as StoredAudio[])[0];
+  if (!row) {
+    return errorResponse(404, 'not_found', 'That recording does not exist or is not yours.');
+  }
+
+  await removeStoredAudio([row, ...(replies as StoredAudio[])], 'DELETE /api/snippets');
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,229 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { getRequestUser, isBanned, isBannedAddress, rememberAddress, requestAddressHash } from '@/lib/apiAuth';
+import { isUuid } from '@/lib/ids';
+import { CaptionsSource, SNIPPETS_BUCKET, SNIPPET_COLUMNS, SnippetRow, toAudioSnippet } from '@/lib/snippets';
+import {
+  MAX_SNIPPET_BYTES,
+  MAX_SNIPPET_SECONDS,
+  MIN_SNIPPET_SECONDS,
+  SNIPPET_CONTENT_TYPES,
+  SnippetUploadErrorBody,
+  SnippetUploadErrorCode,
+  SnippetUploadResponse,
+  baseContentType,
+} from '@/lib/snippetUpload';
+import { readDuration, sniffContainer } from '@/lib/audioContainer';
+import { WaveformPeaks, parseWaveformPeaks } from '@/lib/peaks';
+import { VisualizerStyle, isVisualizerStyle } from '@/lib/visualizers';
+import { MAX_TAGS, normalizeTag } from '@/lib/tags';
+import { MAX_CAPTIONS_BYTES, WebVTTError, parseWebVTT, serializeWebVTT } from '@/lib/webvtt';
+import { getTranscriptionProvider } from '@/lib/transcription';
+
+// Peaks whose duration is further than this from the container's are rejected
+const PEAKS_DURATION_TOLERANCE = 1;
+
+export const dynamic = 'force-dynamic';
+
+function byteLength(text: string) {
+  return new TextEncoder().encode(text).length;
+}
+
+function errorResponse(status: number, code: SnippetUploadErrorCode, message: string) {
+  return NextResponse.json<SnippetUploadErrorBody>({ error: { code, message } }, { status });
+}
+
+export async function POST(request: Request) {
+  const caller = await getRequestUser(request);
+  if (!caller) {
+    return errorResponse(401, 'unauthorized', 'Sign in to publish recordings.');
+  }
+
+  // Anonymous accounts are free to make, so they're also turned away from
+  // addresses a banned user published from
+  const addressHash = requestAddressHash(request);
+  try {
+    if (
+      await isBanned(caller.user.id) ||
+      (caller.user.is_anonymous && addressHash && await isBannedAddress(addressHash))
+    ) {
+      return errorResponse(403, 'banned', 'Your account can no longer publish recordings.');
+    }
+  } catch (error) {
+    console.error('POST /api/snippets: Ban lookup failed', error);
+    return errorResponse(500, 'server_error', 'Could not save the recording. Please try again.');
+  }
+
+  if (addressHash) {
+    await rememberAddress(caller.user.id, addressHash).catch(error => {
+      console.error('POST /api/snippets: Failed to remember address', error);
+    });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return errorResponse(400, 'missing_file', 'Expected a multipart form with a "file" field.');
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof Blob)) {
+    return errorResponse(400, 'missing_file', 'Expected a multipart form with a "file" field.');
+  }
+
+  const contentType = baseContentType(file.type);
+  const format = SNIPPET_CONTENT_TYPES[contentType];
+  if (!format) {
+    return errorResponse(415, 'unsupported_type', `Recordings of type "${file.type || 'unknown'}" are not supported.`);
+  }
+
+  if (file.size === 0) {
+    return errorResponse(400, 'empty_clip', 'The recording is empty.');
+  }
+  if (file.size > MAX_SNIPPET_BYTES) {
+    return errorResponse(413, 'too_large', `Recordings must be under ${MAX_SNIPPET_BYTES / 1024 / 1024} MB.`);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const container = sniffContainer(bytes);
+  if (container !== format.container) {
+    return errorResponse(415, 'unsupported_type', `The recording is not a valid ${contentType} file.`);
+  }
+
+  const duration = readDuration(bytes, container);
+  if (duration === null) {
+    return errorResponse(422, 'undecodable', 'Could not read the length of the recording.');
+  }
+  if (duration < MIN_SNIPPET_SECONDS) {
+    return errorResponse(422, 'too_short', 'That recording is too short.');
+  }
+  if (duration > MAX_SNIPPET_SECONDS) {
+    return errorResponse(422, 'too_long', `Recordings can be at most ${MAX_SNIPPET_SECONDS} seconds long.`);
+  }
+
+  let peaks: WaveformPeaks | null = null;
+  const peaksField = form.get('peaks');
+  if (typeof peaksField === 'string') {
+    try {
+      peaks = parseWaveformPeaks(JSON.parse(peaksField));
+    } catch {
+      peaks = null;
+    }
+    if (!peaks || Math.abs(peaks.duration - duration) > PEAKS_DURATION_TOLERANCE) {
+      return errorResponse(400, 'invalid_peaks', 'The waveform data sent with the recording is invalid.');
+    }
+  }
+
+  let visualStyle: VisualizerStyle | null = null;
+  const styleField = form.get('visual_style');
+  if (styleField !== null) {
+    if (!isVisualizerStyle(styleField)) {
+      return errorResponse(400, 'invalid_style', 'Unknown visualizer style.');
+    }
+    visualStyle = styleField;
+  }
+
+  // Threads are one level deep: a reply to a reply joins its parent's thread
+  let parentId: string | null = null;
+  const parentField = form.get('parent_id');
+  if (parentField !== null) {
+    if (typeof parentField !== 'string' || !isUuid(parentField)) {
+      return errorResponse(400, 'invalid_parent', 'Unknown snippet to reply to.');
+    }
+    const { data: parent, error: parentError } = await supabaseAdmin
+      .from('snippets')
+      .select('id, parent_id')
+      .eq('id', parentField)
+      .maybeSingle();
+    if (parentError) {
+      console.error('POST /api/snippets: Parent lookup failed', parentError);
+      return errorResponse(500, 'server_error', 'Could not save the recording. Please try again.');
+    }
+    if (!parent) {
+      return errorResponse(404, 'invalid_parent', 'The snippet you replied to no longer exists.');
+    }
+    parentId = parent.parent_id ?? parent.id;
+  }
+
+  const tagFields = form.getAll('tags');
+  const tags = Array.from(new Set(tagFields.map(field => (typeof field === 'string' ? normalizeTag(field) : null))));
+  if (tags.includes(null)) {
+    return errorResponse(400, 'invalid_tags', 'Tags can only use letters, numbers and underscores.');
+  }
+  if (tags.length > MAX_TAGS) {
+    return errorResponse(400, 'invalid_tags', `Add at most ${MAX_TAGS} tags.`);
+  }
+
+  let captions: string | null = null;
+  const captionsField = form.get('captions');
+  if (captionsField !== null) {
+    if (typeof captionsField !== 'string' || byteLength(captionsField) > MAX_CAPTIONS_BYTES) {
+      return errorResponse(400, 'invalid_captions', `Captions must be WebVTT text under ${MAX_CAPTIONS_BYTES / 1024} KB.`);
+    }
+    try {
+      // Stored as re-serialized, so what's saved is what the feed can read
+      const cues = parseWebVTT(captionsField);
+      captions = cues.length ? serializeWebVTT(cues) : null;
+      if (captions && byteLength(captions) > MAX_CAPTIONS_BYTES) throw new WebVTTError('They are too long');
+    } catch (error) {
+      const detail = error instanceof WebVTTError ? error.message : 'Could not read them';
+      return errorResponse(400, 'invalid_captions', `The captions are not valid WebVTT. ${detail}.`);
+    }
+  }
+  let captionsSource: CaptionsSource | null = captions ? 'uploader' : null;
+
+  // Otherwise ask the transcription provider, if one is configured. Captions
+  // are a nice-to-have, so a failure here doesn't stop the upload.
+  const transcriber = getTranscriptionProvider();
+  if (!captions && transcriber) {
+    try {
+      const cues = await transcriber.transcribe({ audio: bytes, contentType, duration });
+      const transcript = cues.length ? serializeWebVTT(cues) : null;
+      if (transcript && byteLength(transcript) <= MAX_CAPTIONS_BYTES) {
+        captions = transcript;
+        captionsSource = 'transcription';
+      }
+    } catch (error) {
+      console.error('POST /api/snippets: Transcription failed', { provider: transcriber.name, error });
+    }
+  }
+
+  const storagePath = `snippet-${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${format.extension}`;
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(SNIPPETS_BUCKET)
+    .upload(storagePath, bytes, { contentType });
+
+  if (uploadError) {
+    console.error('POST /api/snippets: Storage upload failed', uploadError);
+    return errorResponse(502, 'storage_failed', 'Could not store the recording. Please try again.');
+  }
+
+  const { data, error: insertError } = await supabaseAdmin
+    .from('snippets')
+    .insert({
+      storage_path: storagePath,
+      mime_type: contentType,
+      peaks,
+      visual_style: visualStyle,
+      owner_id: caller.user.id,
+      parent_id: parentId,
+      tags,
+      captions,
+      captions_source: captionsSource,
+    })
+    .select(SNIPPET_COLUMNS)
+    .single();
+
+  if (insertError) {
+    // Don't leave an orphaned object behind when the row can't be written
+    console.error('POST /api/snippets: Metadata insert failed', insertError);
+    await supabaseAdmin.storage.from(SNIPPETS_BUCKET).remove([storagePath]);
+    return errorResponse(500, 'server_error', 'Could not save the recording. Please try again.');
+  }
+
+  return NextResponse.json<SnippetUploadResponse>(
+    { snippet: toAudioSnippet(data as unknown as SnippetRow) },
+    { status: 201 }
+  );
+}
@@ -1,10 +1,14 @@
 import './globals.css'
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import { AudioEngineProvider } from '@/components/AudioEngineProvider'
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration'
+import { SITE_URL } from '@/lib/share'
 
 const inter = Inter({ subsets: ['latin'] })
 
 export const metadata: Metadata = {
+  metadataBase: SITE_URL,
   title: 'Wavelength - Short Audio Platform',
   description: 'Share and discover short audio snippets',
 }
@@ -16,7 +20,10 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <AudioEngineProvider>{children}</AudioEngineProvider>
+        <ServiceWorkerRegistration />
+      </body>
     </html>
   )
 } 
\ No newline at end of file
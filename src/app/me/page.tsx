@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+import MySnippets from '@/components/MySnippets';
+
+export const metadata: Metadata = {
+  title: 'My snippets - Wavelength',
+};
+
+export default function MyPage() {
+  return (
+    <div className="min-h-screen bg-black">
+      <MySnippets />
+    </div>
+  );
+}
@@ -1,21 +1,34 @@
 'use client';
 
-import AudioRecorder from '@/components/AudioRecorder';
+import { useState, useEffect } from 'react';
 import AudioFeed from '@/components/AudioFeed';
-import { useState } from 'react';
+import { FeedSource } from '@/lib/feedSource';
+import { loadLastFeedSource } from '@/lib/feedSession';
 
 export default function Home() {
+  // Read after mount: the last tab lives in the URL or localStorage
+  const [source, setSource] = useState<FeedSource | null>(null);
+
+  useEffect(() => {
+    setSource(loadLastFeedSource());
+  }, []);
+
   return (
     <div className="min-h-screen bg-black relative">
       {/* Main Content Area */}
       <div className="h-screen">
-        <AudioFeed />
-      </div>
-
-      {/* Fixed Record Button */}
-      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50">
-        <AudioRecorder />
+        {/* Switching tabs remounts the feed so it starts fresh from the new source */}
+        {source && (
+          <AudioFeed
+            key={source.kind}
+            source={source}
+            onSourceChange={setSource}
+            jumpToOwnUploads
+            resumable
+            sessionInUrl
+          />
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,36 @@
+import { notFound } from 'next/navigation';
+import { fetchSnippet } from '@/lib/snippets';
+import { absoluteUrl, snippetPath } from '@/lib/share';
+
+export const dynamic = 'force-dynamic';
+
+// Minimal player loaded in an iframe by Twitter/X player cards. The browser
+// picks whichever stored encoding it can play.
+export default async function SnippetEmbed({ params }: { params: { id: string } }) {
+  const snippet = await fetchSnippet(params.id).catch(() => null);
+  if (!snippet) notFound();
+
+  return (
+    <div className="h-screen bg-black flex items-center gap-4 px-4">
+      <span
+        className="w-10 h-10 shrink-0 rounded-full"
+        style={{ backgroundColor: snippet.owner?.avatar_color ?? '#ffffff' }}
+      />
+      <div className="flex-1 min-w-0 flex flex-col gap-2">
+        <a
+          href={absoluteUrl(snippetPath(snippet.id))}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-white text-sm truncate hover:underline"
+        >
+          {snippet.owner ? `@${snippet.owner.handle}` : 'wavelength'}
+        </a>
+        <audio controls preload="none" className="w-full h-8">
+          {snippet.sources.map(source => (
+            <source key={source.url} src={source.url} type={source.mimeType} />
+          ))}
+        </audio>
+      </div>
+    </div>
+  );
+}
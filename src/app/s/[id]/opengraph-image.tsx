@@ -0,0 +1,62 @@
+import { ImageResponse } from 'next/server';
+import { fetchSnippet } from '@/lib/snippets';
+import { readPeaks } from '@/lib/peaks';
+
+export const alt = 'Waveform of a Wavelength snippet';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+const BAR_COUNT = 64;
+
+// Preview card for shared links: the creator and the clip's waveform.
+export default async function SnippetImage({ params }: { params: { id: string } }) {
+  const snippet = await fetchSnippet(params.id).catch(() => null);
+  const color = snippet?.owner?.avatar_color ?? '#ffffff';
+  const peaks = snippet?.peaks ? readPeaks(snippet.peaks, BAR_COUNT) : [];
+  // Resample the stored level down to a fixed number of bars
+  const bars = peaks.length
+    ? Array.from({ length: BAR_COUNT }, (_, i) => peaks[Math.floor((i * peaks.length) / BAR_COUNT)])
+    : new Array<number>(BAR_COUNT).fill(0.2);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: '#000000',
+          color: '#ffffff',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 24 }}>
+          <div style={{ width: 72, height: 72, borderRadius: 36, background: color }} />
+          <div style={{ fontSize: 56 }}>
+            {snippet?.owner ? `@${snippet.owner.handle}` : 'wavelength'}
+          </div>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, height: 260 }}>
+          {bars.map((peak, i) => (
+            <div
+              key={i}
+              style={{
+                flex: 1,
+                height: `${Math.max(peak, 0.04) * 100}%`,
+                borderRadius: 6,
+                background: color,
+              }}
+            />
+          ))}
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16, fontSize: 32, color: 'rgba(255,255,255,0.6)' }}>
+          <div style={{ width: 16, height: 16, borderRadius: 8, background: '#ffffff' }} />
+          wavelength
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,85 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import AudioFeed from '@/components/AudioFeed';
+import { AudioSnippet, fetchSnippet } from '@/lib/snippets';
+import { absoluteUrl, snippetPath, snippetTitle } from '@/lib/share';
+
+// Likes and deletions should show up in shared links straight away
+export const dynamic = 'force-dynamic';
+
+interface SnippetPageProps {
+  params: { id: string };
+}
+
+// Matches the embed player's layout; see ./embed
+const PLAYER_WIDTH = 480;
+const PLAYER_HEIGHT = 120;
+
+async function loadSnippet(id: string): Promise<AudioSnippet | null> {
+  try {
+    return await fetchSnippet(id);
+  } catch (error) {
+    // Malformed ids fail the uuid cast; treat them like missing snippets
+    console.error('SnippetPage: Failed to fetch snippet', error);
+    return null;
+  }
+}
+
+function describeSnippet(snippet: AudioSnippet) {
+  const title = snippetTitle(snippet);
+  const seconds = snippet.peaks ? Math.round(snippet.peaks.duration) : null;
+  const description = seconds
+    ? `${seconds} second${seconds === 1 ? '' : 's'} of audio. Listen, then keep swiping.`
+    : 'Listen, then keep swiping.';
+  return { title, description };
+}
+
+export async function generateMetadata({ params }: SnippetPageProps): Promise<Metadata> {
+  const snippet = await loadSnippet(params.id);
+  if (!snippet) return { title: 'Snippet not found - Wavelength' };
+
+  const { title, description } = describeSnippet(snippet);
+  // Without a playable source there is nothing for a player card to play
+  const source = snippet.sources.length ? snippet.sources[0] : null;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: 'music.song',
+      title,
+      description,
+      url: snippetPath(snippet.id),
+      siteName: 'Wavelength',
+      audio: snippet.sources.map(s => ({ url: s.url, secureUrl: s.url, type: s.mimeType })),
+    },
+    twitter: source
+      ? {
+        card: 'player',
+        title,
+        description,
+        players: {
+          // Player descriptors aren't resolved against metadataBase
+          playerUrl: absoluteUrl(`${snippetPath(snippet.id)}/embed`),
+          streamUrl: source.url,
+          width: PLAYER_WIDTH,
+          height: PLAYER_HEIGHT,
+        },
+      }
+      : { card: 'summary', title, description },
+  };
+}
+
+// Opens the player on one snippet, then carries on into the feed.
+export default async function SnippetPage({ params }: SnippetPageProps) {
+  const snippet = await loadSnippet(params.id);
+  if (!snippet) notFound();
+
+  return (
+    <div className="min-h-screen bg-black relative">
+      <div className="h-screen">
+        <AudioFeed initialSnippet={snippet} />
+      </div>
+    </div>
+  );
+}
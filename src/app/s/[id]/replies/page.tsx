@@ -0,0 +1,41 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import AudioFeed from '@/components/AudioFeed';
+import { fetchSnippet } from '@/lib/snippets';
+import { snippetPath, threadPath } from '@/lib/share';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Replies - Wavelength',
+};
+
+// A snippet followed by its voice replies, oldest first.
+export default async function RepliesPage({ params }: { params: { id: string } }) {
+  const parent = await fetchSnippet(params.id).catch(() => null);
+  if (!parent) notFound();
+  // Threads are one level deep; a reply's thread is its parent's
+  if (parent.parent_id) redirect(threadPath(parent.parent_id));
+
+  return (
+    <div className="min-h-screen bg-black relative">
+      <div className="h-screen">
+        <AudioFeed
+          source={{ kind: 'thread', parentId: parent.id }}
+          initialSnippet={parent}
+          overlay={
+            <div className="flex items-center gap-3 px-4 py-2 rounded-full bg-white/10 backdrop-blur-lg text-sm">
+              <Link href={snippetPath(parent.id)} className="text-white/50 hover:text-white transition-all">
+                ←
+              </Link>
+              <span className="text-white">
+                Replies to {parent.owner ? `@${parent.owner.handle}` : 'this snippet'}
+              </span>
+            </div>
+          }
+        />
+      </div>
+    </div>
+  );
+}
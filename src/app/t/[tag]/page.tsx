@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import AudioFeed from '@/components/AudioFeed';
+import TrendingTags from '@/components/TrendingTags';
+import { normalizeTag, tagPath } from '@/lib/tags';
+
+export function generateMetadata({ params }: { params: { tag: string } }): Metadata {
+  const tag = normalizeTag(decodeURIComponent(params.tag));
+  return { title: tag ? `#${tag} - Wavelength` : 'Wavelength' };
+}
+
+// A hashtag channel: only snippets carrying the tag.
+export default function TagPage({ params }: { params: { tag: string } }) {
+  const raw = decodeURIComponent(params.tag);
+  const tag = normalizeTag(raw);
+  if (!tag) notFound();
+  // One URL per channel, e.g. /t/Music and /t/%23music go to /t/music
+  if (tag !== raw) redirect(tagPath(tag));
+
+  return (
+    <div className="min-h-screen bg-black relative">
+      <div className="h-screen">
+        <AudioFeed
+          key={tag}
+          source={{ kind: 'tag', tag }}
+          overlay={
+            <div className="flex flex-col items-center gap-2">
+              <div className="flex items-center gap-3 px-4 py-2 rounded-full bg-white/10 backdrop-blur-lg text-sm">
+                <Link href="/" className="text-white/50 hover:text-white transition-all">
+                  ←
+                </Link>
+                <span className="text-white">#{tag}</span>
+              </div>
+              <TrendingTags current={tag} />
+            </div>
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import CreatorFeed from '@/components/CreatorFeed';
+
+export default function CreatorPage({ params }: { params: { handle: string } }) {
+  return (
+    <div className="min-h-screen bg-black relative">
+      <div className="h-screen">
+        <CreatorFeed handle={decodeURIComponent(params.handle)} />
+      </div>
+    </div>
+  );
+}
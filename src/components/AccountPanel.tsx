@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { isAnonymousUser, signInWithEmail, signOut, upgradeWithEmail } from '@/lib/auth';
+
+interface AccountPanelProps {
+  user: User | null;
+}
+
+type EmailMode = 'upgrade' | 'sign-in';
+
+// Lets an anonymous listener attach an email to keep their account, or sign
+// in to an existing one with a magic link.
+export default function AccountPanel({ user }: AccountPanelProps) {
+  const [email, setEmail] = useState('');
+  const [mode, setMode] = useState<EmailMode>('upgrade');
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setMessage(null);
+    setErrorMessage(null);
+    try {
+      if (mode === 'upgrade') await upgradeWithEmail(email);
+      else await signInWithEmail(email);
+      setMessage(`Check ${email} for a link to finish signing in.`);
+    } catch (error) {
+      console.error('AccountPanel: Email sign-in failed', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('AccountPanel: Sign out failed', error);
+    }
+  };
+
+  if (user && !isAnonymousUser(user)) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-2xl bg-white/10 px-4 py-3">
+        <div className="text-white/70 text-sm truncate">Signed in as {user.email}</div>
+        <button
+          className="h-8 px-3 rounded-full bg-white/10 text-white text-sm hover:bg-white/20 transition-all"
+          onClick={handleSignOut}
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="flex flex-col gap-3 rounded-2xl bg-white/10 px-4 py-3" onSubmit={handleSubmit}>
+      <div className="text-white/70 text-sm">
+        {mode === 'upgrade'
+          ? 'Add your email to keep your recordings if you switch devices or clear this browser.'
+          : "Sign in to an account you've already added an email to. Recordings made here as a guest stay with this browser."}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          aria-label="Email address"
+          className="flex-1 min-w-0 h-10 px-4 rounded-full bg-black/40 text-white text-sm placeholder:text-white/30 focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+        />
+        <button
+          type="submit"
+          className="h-10 px-4 rounded-full bg-white text-black text-sm hover:scale-105 transition-all disabled:opacity-50"
+          disabled={isSending || !email}
+        >
+          {isSending ? 'Sending…' : 'Send link'}
+        </button>
+      </div>
+      {message && <div role="status" className="text-white text-sm">{message}</div>}
+      {errorMessage && <div role="alert" className="text-red-400 text-sm">{errorMessage}</div>}
+      <button
+        type="button"
+        className="self-start text-white/50 text-xs hover:text-white transition-all"
+        onClick={() => setMode(mode === 'upgrade' ? 'sign-in' : 'upgrade')}
+      >
+        {mode === 'upgrade' ? 'Already have an account? Sign in' : 'Save this guest account instead'}
+      </button>
+    </form>
+  );
+}
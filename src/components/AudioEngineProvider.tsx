@@ -0,0 +1,26 @@
+'use client';
+
+import { createContext, useContext, useState } from 'react';
+import { AudioEngine, DEFAULT_CROSSFADE_MS } from '@/lib/audioEngine';
+
+const AudioEngineContext = createContext<AudioEngine | null>(null);
+
+interface AudioEngineProviderProps {
+  children: React.ReactNode;
+  crossfadeMs?: number;
+}
+
+// Owns the app's single AudioEngine so it outlives individual tracks and views.
+// It lives as long as the page; an element can never be re-wrapped by a new
+// AudioContext, so the engine is deliberately never torn down.
+export function AudioEngineProvider({ children, crossfadeMs = DEFAULT_CROSSFADE_MS }: AudioEngineProviderProps) {
+  const [engine] = useState(() => new AudioEngine({ crossfadeMs }));
+
+  return <AudioEngineContext.Provider value={engine}>{children}</AudioEngineContext.Provider>;
+}
+
+export function useAudioEngine(): AudioEngine {
+  const engine = useContext(AudioEngineContext);
+  if (!engine) throw new Error('useAudioEngine must be used inside an AudioEngineProvider');
+  return engine;
+}
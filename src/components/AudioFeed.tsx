@@ -1,47 +1,405 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { supabase } from '@/lib/supabase';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import {
+  AudioSnippet,
+  SnippetCursor,
+  fetchSnippet,
+  fetchSnippetPage,
+  fetchLikedSnippetIds,
+  formatTime,
+  setSnippetLiked,
+  subscribeToNewSnippets,
+} from '@/lib/snippets';
+import { ensureSession } from '@/lib/auth';
+import {
+  DEFAULT_FEED_SOURCE,
+  FEED_TABS,
+  FeedCursor,
+  FeedFilter,
+  FeedSource,
+  matchesFeedFilter,
+  resolveFeedFilter,
+} from '@/lib/feedSource';
+import { OffsetCursor, PlayOutcome, classifyPlay, fetchRankedPage, recordSnippetPlay } from '@/lib/ranking';
+import {
+  FeedSession,
+  createFeedSession,
+  createSeededRandom,
+  isResumableSourceKind,
+  loadFeedSession,
+  markHeard,
+  saveFeedSession,
+} from '@/lib/feedSession';
+import { resolvePlayableSnippet } from '@/lib/audioFormats';
+import { trackEvent } from '@/lib/analytics';
+import {
+  DEFAULT_VISUALIZER_STYLE,
+  VisualizerStyle,
+  loadVisualizerPreference,
+  saveVisualizerPreference,
+} from '@/lib/visualizers';
+import { TrackTransition } from '@/lib/audioEngine';
+import { PreloadCache } from '@/lib/preloadCache';
+import { isAudioCached, isOffline } from '@/lib/offline';
+import {
+  FailedUpload,
+  UploadQueueState,
+  discardUpload,
+  flushUploadQueue,
+  getUploadQueueState,
+  retryUpload,
+  subscribeToUploadQueue,
+} from '@/lib/uploadQueue';
+import { shareSnippet, threadPath } from '@/lib/share';
+import { ReportReason, reportSnippet } from '@/lib/moderation';
+import { tagPath } from '@/lib/tags';
+import { hasCommandModifier, isTypingTarget } from '@/lib/keyboard';
+import {
+  CaptionCue,
+  findActiveCue,
+  loadCaptionsPreference,
+  parseWebVTT,
+  saveCaptionsPreference,
+} from '@/lib/webvtt';
+import {
+  MediaSessionHandlers,
+  setMediaSessionActionHandlers,
+  setMediaSessionMetadata,
+  setMediaSessionPlaybackState,
+  setMediaSessionPosition,
+} from '@/lib/mediaSession';
+import { drawVisualizerArtwork } from '@/lib/visualizers/artwork';
 import AudioVisualizer from './AudioVisualizer';
+import { useAudioEngine } from './AudioEngineProvider';
+import AudioRecorder from './AudioRecorder';
+import SnippetWaveform from './SnippetWaveform';
+import VisualizerPicker from './VisualizerPicker';
+import ChannelPicker from './ChannelPicker';
+import ReportSheet from './ReportSheet';
+import KeyboardShortcuts from './KeyboardShortcuts';
+import FailedUploadsSheet from './FailedUploadsSheet';
 
-interface AudioSnippet {
-  url: string;
-  name: string;
-  created_at: string;
-  liked?: boolean;
+// Snippets kept warm on each side of the current one in the play order
+const PRELOAD_RADIUS = 2;
+// Start fetching the next page when this few entries are left in the play order
+const PREFETCH_THRESHOLD = 5;
+// Horizontal travel before a touch counts as a scrub rather than a tap
+const SCRUB_THRESHOLD = 20;
+// Seconds skipped per arrow key press
+const SEEK_STEP = 5;
+// How long notices such as "Link copied" stay up
+const NOTICE_MS = 2000;
+
+const EMPTY_FEED_MESSAGES: Partial<Record<FeedSource['kind'], string>> = {
+  following: 'Nothing here yet. Follow creators to fill this feed.',
+  'top-today': 'Nothing recorded today yet.',
+  tag: 'Nothing has this tag yet.',
+};
+
+// How a snippet is read out to screen readers
+function describeSnippet(snippet: AudioSnippet): string {
+  const by = snippet.owner ? ` by @${snippet.owner.handle}` : '';
+  const length = snippet.peaks ? `, ${formatTime(snippet.peaks.duration)}` : '';
+  const tags = snippet.tags.length ? `, tagged ${snippet.tags.map(tag => `#${tag}`).join(' ')}` : '';
+  return `Snippet${by}${length}${tags}`;
+}
+
+// Keyboard focus indicator shared by the feed's controls
+const FOCUS_RING = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-white';
+
+// Shuffled unless `shuffle` is false, for listings whose order matters
+function generatePlayOrder(start: number, length: number, shuffle = true, random = Math.random) {
+  const order = Array.from({ length }, (_, i) => start + i);
+  if (!shuffle) return order;
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// Moves snippets already heard to the end, keeping the order within each group
+function deprioritizeHeard(order: number[], snippets: AudioSnippet[], heardIds: Set<string>) {
+  if (!heardIds.size) return order;
+  const isHeard = (index: number) => heardIds.has(snippets[index].id);
+  return [...order.filter(index => !isHeard(index)), ...order.filter(isHeard)];
+}
+
+function playableOnly(snippets: AudioSnippet[]) {
+  return snippets.flatMap(s => resolvePlayableSnippet(s) ?? []);
+}
+
+// Offline, only snippets the service worker has cached can play
+async function cachedOnly(snippets: AudioSnippet[]) {
+  const cached = await Promise.all(snippets.map(s => isAudioCached(s.url).catch(() => false)));
+  return snippets.filter((_, i) => cached[i]);
+}
+
+async function loadSnippetPage(cursor: FeedCursor | null, filter: FeedFilter) {
+  // Cursors only ever come from earlier pages of the same filter, so they
+  // are always the kind its listing expects
+  const page = filter.ranking
+    ? await fetchRankedPage(cursor as OffsetCursor | null, filter.ranking)
+    : await fetchSnippetPage(cursor as SnippetCursor | null, filter);
+  // The cursor still advances past snippets this browser can't play
+  const playable = playableOnly(page.snippets);
+  const snippets = isOffline() ? await cachedOnly(playable) : playable;
+  console.log('AudioFeed: Snippet page fetched', {
+    count: page.snippets.length,
+    playable: snippets.length,
+    cursor,
+  });
+
+  const likedIds = await ensureSession()
+    .then(session => fetchLikedSnippetIds(session.user.id, snippets.map(s => s.id)))
+    .catch(error => {
+      console.error('AudioFeed: Failed to fetch likes:', error);
+      return new Set<string>();
+    });
+
+  return {
+    snippets: snippets.map(s => ({ ...s, liked: likedIds.has(s.id) })),
+    nextCursor: page.nextCursor,
+  };
+}
+
+// How far the listener got into one track, for the ranking's play stats
+// and playback analytics
+interface Listen {
+  id: string | null;
+  // Largest fraction of the track reached
+  fraction: number;
+  reachedEnd: boolean;
+  // Fallback for streams whose duration the element can't report
+  duration: number;
+  // Time spent playing, built up from timeupdate steps
+  listenedMs: number;
+  lastTime: number | null;
+  // Whether a play event has been sent since the last pause
+  playing: boolean;
+}
+
+// Longer gaps between timeupdates are seeks or stalls, not listening
+const MAX_LISTEN_STEP = 1;
+
+function startListen(id: string | null, duration: number): Listen {
+  if (id) trackEvent({ type: 'impression', snippet_id: id });
+  return { id, fraction: 0, reachedEnd: false, duration, listenedMs: 0, lastTime: null, playing: false };
 }
 
-interface PreloadedAudio {
-  audio: HTMLAudioElement;
-  loaded: boolean;
-  error: boolean;
+function reportListen({ id, fraction, reachedEnd, listenedMs }: Listen): PlayOutcome | null {
+  if (!id || (!fraction && !reachedEnd)) return null;
+  const outcome = classifyPlay(fraction, reachedEnd);
+  recordSnippetPlay(id, outcome)
+    .catch(error => console.error('AudioFeed: Failed to record play:', error));
+  trackEvent({
+    type: outcome === 'complete' ? 'complete' : 'skip',
+    snippet_id: id,
+    listened_ms: Math.round(listenedMs),
+  });
+  return outcome;
 }
 
-export default function AudioFeed() {
+interface AudioFeedProps {
+  // Jump straight to the listener's own recording once it is published,
+  // instead of queueing it as up next
+  jumpToOwnUploads?: boolean;
+  maxRecordingMs?: number;
+  // Read once on mount; give the feed a new `key` to switch sources
+  source?: FeedSource;
+  // Shows the feed tabs (For you, New, Top today, Following) when set
+  onSourceChange?: (source: FeedSource) => void;
+  // Played first, ahead of the shuffled feed
+  initialSnippet?: AudioSnippet;
+  // Extra content shown under the header, e.g. a creator's profile
+  overlay?: React.ReactNode;
+  // Save the listener's place and pick up from it on the next visit; only
+  // for the main feed's tabs. See src/lib/feedSession.ts
+  resumable?: boolean;
+  // Also keep the place in the URL, so it survives being shared or bookmarked
+  sessionInUrl?: boolean;
+}
+
+export default function AudioFeed({
+  jumpToOwnUploads = false,
+  maxRecordingMs,
+  source = DEFAULT_FEED_SOURCE,
+  onSourceChange,
+  initialSnippet,
+  overlay,
+  resumable = false,
+  sessionInUrl = false,
+}: AudioFeedProps) {
+  const engine = useAudioEngine();
+  const [preloadCache] = useState(() => new PreloadCache());
+
   // State
   const [snippets, setSnippets] = useState<AudioSnippet[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
-  const [recordingProgress, setRecordingProgress] = useState(0);
   const [autoplayEnabled, setAutoplayEnabled] = useState(false);
   const [playOrder, setPlayOrder] = useState<number[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [freshIds, setFreshIds] = useState<Set<string>>(new Set());
+  // Playback is held while the listener records or reviews a take
+  const [isRecorderActive, setIsRecorderActive] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState(0);
+  // Position shown while a horizontal drag is in progress, applied on release
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  // Recordings made offline that are still waiting to upload
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const [failedUploads, setFailedUploads] = useState<FailedUpload[]>([]);
+  const [showFailedUploads, setShowFailedUploads] = useState(false);
+  // Listener's chosen visualizer; null defers to each snippet's suggestion
+  const [visualizerPreference, setVisualizerPreference] = useState<VisualizerStyle | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reportingSnippet, setReportingSnippet] = useState<AudioSnippet | null>(null);
+  const [captionsEnabled, setCaptionsEnabled] = useState(true);
+  const [isMuted, setIsMuted] = useState(() => engine.muted);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Read out by screen readers through the live region
+  const [announcement, setAnnouncement] = useState('');
 
   // Refs
   const touchStartX = useRef(0);
   const touchStartY = useRef(0);
   const touchStartTime = useRef(0);
   const lastTapTime = useRef(0);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordingStartTimeRef = useRef<number>(0);
-  const recordingIntervalRef = useRef<NodeJS.Timeout>();
-  const audioChunksRef = useRef<Blob[]>([]);
   const isTouchMoveRef = useRef(false);
-  const preloadedAudiosRef = useRef<Map<string, PreloadedAudio>>(new Map());
-  const preloadQueueRef = useRef<string[]>([]);
-  const isPreloadingRef = useRef(false);
-  const maxPreloadCount = 3;
+  const isScrubbingRef = useRef(false);
+  const scrubOriginRef = useRef(0);
+  const nextCursorRef = useRef<FeedCursor | null>(null);
+  const isFetchingMoreRef = useRef(false);
+  const pendingAdvanceRef = useRef(false);
+  // Snippet id -> index in `snippets`, kept in step synchronously so appended
+  // play order indices never collide and duplicates are easy to spot
+  const snippetIndexRef = useRef<Map<string, number>>(new Map());
+  const previousTrackIdRef = useRef<string | null>(null);
+  const listenRef = useRef<Listen>(startListen(null, 0));
+  // How the engine should switch to the next track it loads
+  const nextTransitionRef = useRef<TrackTransition>('cut');
+  const sourceRef = useRef(source);
+  const isThread = source.kind === 'thread';
+  const initialSnippetRef = useRef(initialSnippet);
+  // Resolved form of `source` that pages and live snippets are filtered by
+  const filterRef = useRef<FeedFilter>({ shuffle: false });
+  // Only set for resumable feeds
+  const sessionRef = useRef<FeedSession | null>(null);
+  const heardIdsRef = useRef<Set<string>>(new Set());
+  const randomRef = useRef<() => number>(Math.random);
+  // Where to start the resumed track once it loads
+  const resumeAtRef = useRef<{ id: string; position: number } | null>(null);
+
+  // Data fetching
+  const appendSnippets = useCallback((incoming: AudioSnippet[]) => {
+    const fresh = incoming.filter(s => !snippetIndexRef.current.has(s.id));
+    const start = snippetIndexRef.current.size;
+    fresh.forEach((s, i) => snippetIndexRef.current.set(s.id, start + i));
+    setSnippets(prev => [...prev, ...fresh]);
+    // New pages are shuffled among themselves and queued after everything
+    // already in the play order, so nothing already played moves.
+    const order = generatePlayOrder(0, fresh.length, filterRef.current.shuffle, randomRef.current);
+    const pageOrder = deprioritizeHeard(order, fresh, heardIdsRef.current).map(index => start + index);
+    setPlayOrder(prev => [...prev, ...pageOrder]);
+  }, []);
+
+  const fetchSnippets = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const kind = sourceRef.current.kind;
+      const session = resumable && isResumableSourceKind(kind)
+        ? loadFeedSession(kind, { fromUrl: sessionInUrl })
+        : null;
+      sessionRef.current = session;
+      heardIdsRef.current = new Set(session?.heardIds);
+      randomRef.current = session ? createSeededRandom(session.seed) : Math.random;
+      filterRef.current = await resolveFeedFilter(sourceRef.current, session?.seed, session?.asOf);
+      const page = await loadSnippetPage(null, filterRef.current);
+
+      // A requested first snippet leads, or the one the listener left off
+      // on; the rest of the page follows it
+      const resumed = !initialSnippetRef.current && session?.trackId
+        ? await fetchSnippet(session.trackId).catch(error => {
+          console.error('AudioFeed: Failed to fetch resumed snippet:', error);
+          return null;
+        })
+        : null;
+      const leadSource = initialSnippetRef.current ?? resumed;
+      const lead = leadSource && resolvePlayableSnippet(leadSource);
+      const rest = lead ? page.snippets.filter(s => s.id !== lead.id) : page.snippets;
+      const loaded = lead ? [lead, ...rest] : rest;
+      resumeAtRef.current = lead && lead.id === session?.trackId && session.position
+        ? { id: lead.id, position: session.position }
+        : null;
+
+      snippetIndexRef.current = new Map(loaded.map((s, i) => [s.id, i]));
+      nextCursorRef.current = page.nextCursor;
+      pendingAdvanceRef.current = false;
+      const restOrder = deprioritizeHeard(
+        generatePlayOrder(0, rest.length, filterRef.current.shuffle, randomRef.current),
+        rest,
+        heardIdsRef.current
+      ).map(index => index + (lead ? 1 : 0));
+      const newOrder = lead ? [0, ...restOrder] : restOrder;
+      console.log('AudioFeed: Generated new play order', newOrder);
+      setPlayOrder(newOrder);
+      setSnippets(loaded);
+      setCurrentIndex(0);
+      setHasMore(!!page.nextCursor);
+      setIsLoading(false);
+    } catch (error) {
+      console.error('AudioFeed: Failed to fetch snippets:', error);
+      setIsLoading(false);
+    }
+  }, [resumable, sessionInUrl]);
+
+  const loadMore = useCallback(async () => {
+    if (isFetchingMoreRef.current || !nextCursorRef.current) return;
+
+    isFetchingMoreRef.current = true;
+    try {
+      const page = await loadSnippetPage(nextCursorRef.current, filterRef.current);
+      nextCursorRef.current = page.nextCursor;
+      appendSnippets(page.snippets);
+      setHasMore(!!page.nextCursor);
+    } catch (error) {
+      console.error('AudioFeed: Failed to fetch more snippets:', error);
+    } finally {
+      isFetchingMoreRef.current = false;
+    }
+  }, [appendSnippets]);
+
+  // Once every snippet has been loaded and played, queue another shuffled
+  // round after the history instead of wrapping the index.
+  const startNextRound = useCallback(() => {
+    const count = snippetIndexRef.current.size;
+    if (!count) return;
+    console.log('AudioFeed: Reached end of feed, starting a new round');
+    setPlayOrder(prev => [...prev, ...generatePlayOrder(0, count, filterRef.current.shuffle, randomRef.current)]);
+    setCurrentIndex(prev => prev + 1);
+    setIsPlaying(true);
+  }, []);
+
+  // Forgets the saved place and heard clips and reloads with a new shuffle
+  const handleStartFresh = useCallback(() => {
+    const kind = sourceRef.current.kind;
+    if (!isResumableSourceKind(kind)) return;
+    console.log('AudioFeed: Starting fresh');
+    saveFeedSession(kind, createFeedSession(), { toUrl: sessionInUrl });
+    setFreshIds(new Set());
+    fetchSnippets();
+  }, [fetchSnippets, sessionInUrl]);
+
+  const toggleMute = useCallback(() => {
+    const muted = !engine.muted;
+    engine.setMuted(muted);
+    setIsMuted(muted);
+    setAnnouncement(muted ? 'Muted' : 'Unmuted');
+  }, [engine]);
 
   // Core playback controls
   const handlePlayPause = useCallback(() => {
@@ -51,18 +409,27 @@ export default function AudioFeed() {
 
   const handleNext = useCallback(() => {
     console.log('AudioFeed: Next track');
-    setCurrentIndex(prev => (prev + 1) % snippets.length);
-    setIsPlaying(true);
-  }, [snippets.length]);
+    if (currentIndex + 1 < playOrder.length) {
+      setCurrentIndex(currentIndex + 1);
+      setIsPlaying(true);
+    } else if (hasMore) {
+      pendingAdvanceRef.current = true;
+      loadMore();
+    } else {
+      startNextRound();
+    }
+  }, [currentIndex, playOrder.length, hasMore, loadMore, startNextRound]);
 
   const handlePrevious = useCallback(() => {
     console.log('AudioFeed: Previous track');
-    setCurrentIndex(prev => (prev - 1 + snippets.length) % snippets.length);
+    setCurrentIndex(prev => Math.max(prev - 1, 0));
     setIsPlaying(true);
-  }, [snippets.length]);
+  }, []);
 
   const handleTrackEnd = useCallback(() => {
     console.log('AudioFeed: Track ended');
+    // Already moving on: the crossfade started before the track ended
+    if (nextTransitionRef.current === 'crossfade') return;
     if (autoplayEnabled) {
       handleNext();
     } else {
@@ -70,18 +437,183 @@ export default function AudioFeed() {
     }
   }, [autoplayEnabled, handleNext]);
 
-  // Like functionality
-  const handleDoubleTap = useCallback(() => {
-    console.log('AudioFeed: Double tap detected, toggling like');
-    setSnippets(prev => {
-      const updated = [...prev];
-      updated[currentIndex] = {
-        ...updated[currentIndex],
-        liked: !updated[currentIndex].liked
-      };
-      return updated;
+  // Autoplay starts the next track while the current one fades out
+  const handleTrackEnding = useCallback(() => {
+    if (!autoplayEnabled) return;
+    console.log('AudioFeed: Crossfading into next track');
+    nextTransitionRef.current = 'crossfade';
+    handleNext();
+  }, [autoplayEnabled, handleNext]);
+
+  const getCurrentTrack = useCallback(() => {
+    if (!snippets.length || !playOrder.length) return null;
+    const orderIndex = currentIndex % playOrder.length;
+    return snippets[playOrder[orderIndex]];
+  }, [snippets, playOrder, currentIndex]);
+
+  // Seeking
+  // Streamed WebM often reports an Infinity duration until fully read, so
+  // fall back to the duration stored with the snippet's peaks
+  const duration = Number.isFinite(mediaDuration) && mediaDuration > 0
+    ? mediaDuration
+    : getCurrentTrack()?.peaks?.duration ?? 0;
+
+  const seekTo = useCallback((time: number) => {
+    if (!duration) return;
+    const target = Math.max(0, Math.min(time, duration));
+    console.log('AudioFeed: Seeking', { target });
+    const { id } = listenRef.current;
+    if (id) {
+      trackEvent({
+        type: 'seek',
+        snippet_id: id,
+        position_ms: Math.round(engine.currentTime * 1000),
+        seek_to_ms: Math.round(target * 1000),
+      });
+    }
+    engine.seek(target);
+    setPosition(target);
+  }, [engine, duration]);
+
+  // Live updates
+  const queueNewSnippet = useCallback((incoming: AudioSnippet, jump: boolean) => {
+    const snippet = resolvePlayableSnippet(incoming);
+    if (!snippet) {
+      console.log('AudioFeed: Skipping new snippet in an unplayable format', { id: incoming.id });
+      return;
+    }
+
+    let index = snippetIndexRef.current.get(snippet.id);
+    if (index === undefined) {
+      index = snippetIndexRef.current.size;
+      snippetIndexRef.current.set(snippet.id, index);
+      setSnippets(prev => [...prev, snippet]);
+    } else if (!jump) {
+      return;
+    }
+
+    const snippetIndex = index;
+    if (jump) {
+      const target = playOrder.length ? currentIndex + 1 : 0;
+      console.log('AudioFeed: Jumping to own upload', { id: snippet.id, target });
+      setPlayOrder(prev => {
+        const next = [...prev];
+        const queued = next.indexOf(snippetIndex, target);
+        if (queued !== -1) next.splice(queued, 1);
+        next.splice(target, 0, snippetIndex);
+        return next;
+      });
+      setFreshIds(prev => {
+        const next = new Set(prev);
+        next.delete(snippet.id);
+        return next;
+      });
+      setCurrentIndex(target);
+      setIsPlaying(true);
+      return;
+    }
+
+    // Threads stay in posting order, so new replies go last
+    if (isThread) {
+      console.log('AudioFeed: Appending new reply to thread', { id: snippet.id });
+      setPlayOrder(prev => [...prev, snippetIndex]);
+      setFreshIds(prev => new Set(prev).add(snippet.id));
+      return;
+    }
+
+    // Queue after the current track and any earlier arrivals still waiting,
+    // so new snippets play in the order they were published
+    let position = currentIndex + 1;
+    while (position < playOrder.length && freshIds.has(snippets[playOrder[position]]?.id)) {
+      position++;
+    }
+    console.log('AudioFeed: Queueing new snippet', { id: snippet.id, position });
+    setPlayOrder(prev => [...prev.slice(0, position), snippetIndex, ...prev.slice(position)]);
+    setFreshIds(prev => new Set(prev).add(snippet.id));
+  }, [currentIndex, playOrder, snippets, freshIds, isThread]);
+
+  // Like and reply counts
+  const updateSnippet = useCallback((id: string, changes: Partial<AudioSnippet>) => {
+    setSnippets(prev => prev.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  }, []);
+
+  const toggleLike = useCallback(async (snippet: AudioSnippet) => {
+    const previous = { liked: snippet.liked, like_count: snippet.like_count };
+    const liked = !snippet.liked;
+
+    // Optimistic update, rolled back if the write fails
+    updateSnippet(snippet.id, {
+      liked,
+      like_count: Math.max(snippet.like_count + (liked ? 1 : -1), 0),
     });
-  }, [currentIndex]);
+    setAnnouncement(liked ? 'Liked' : 'Like removed');
+
+    try {
+      const likeCount = await setSnippetLiked(snippet.id, liked);
+      updateSnippet(snippet.id, { like_count: likeCount });
+      trackEvent({ type: 'like', snippet_id: snippet.id, liked });
+    } catch (error) {
+      console.error('AudioFeed: Failed to update like, rolling back', error);
+      updateSnippet(snippet.id, previous);
+    }
+  }, [updateSnippet]);
+
+  // Sharing
+  const handleShare = useCallback(async (snippet: AudioSnippet) => {
+    try {
+      const result = await shareSnippet(snippet);
+      console.log('AudioFeed: Share finished', { id: snippet.id, result });
+      if (result === 'copied') setNotice('Link copied');
+    } catch (error) {
+      console.error('AudioFeed: Failed to share snippet', error);
+      setNotice("Couldn't copy the link");
+    }
+  }, []);
+
+  // Reporting drops the snippet from the rest of this listener's play order
+  // and moves on, whether or not it ends up hidden for everyone
+  const handleReport = useCallback(async (reason: ReportReason) => {
+    if (!reportingSnippet) return;
+    const { id } = reportingSnippet;
+    try {
+      const hidden = await reportSnippet(id, reason);
+      console.log('AudioFeed: Snippet reported', { id, reason, hidden });
+      setReportingSnippet(null);
+      setNotice('Thanks, a moderator will take a look');
+    } catch (error) {
+      console.error('AudioFeed: Failed to report snippet', error);
+      setNotice("Couldn't send the report");
+      return;
+    }
+
+    const index = snippetIndexRef.current.get(id);
+    setPlayOrder(prev => prev.filter((entry, position) => position <= currentIndex || entry !== index));
+    if (getCurrentTrack()?.id === id) handleNext();
+  }, [reportingSnippet, currentIndex, getCurrentTrack, handleNext]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  // A reply landed somewhere else; re-read its parent's count if it's loaded
+  const refreshReplyCount = useCallback(async (parentId: string) => {
+    if (!snippetIndexRef.current.has(parentId)) return;
+    try {
+      const parent = await fetchSnippet(parentId);
+      if (parent) updateSnippet(parentId, { reply_count: parent.reply_count });
+    } catch (error) {
+      console.error('AudioFeed: Failed to refresh reply count:', error);
+    }
+  }, [updateSnippet]);
+
+  const handleDoubleTap = useCallback(() => {
+    const track = getCurrentTrack();
+    if (!track) return;
+    console.log('AudioFeed: Double tap detected, toggling like', { id: track.id });
+    toggleLike(track);
+  }, [getCurrentTrack, toggleLike]);
 
   // Basic interaction handlers
   const handleTap = useCallback(() => {
@@ -101,6 +633,7 @@ export default function AudioFeed() {
     touchStartY.current = e.touches[0].clientY;
     touchStartTime.current = Date.now();
     isTouchMoveRef.current = false;
+    isScrubbingRef.current = false;
   }, []);
 
   const handleTouchMove = useCallback((e: React.TouchEvent) => {
@@ -111,11 +644,27 @@ export default function AudioFeed() {
     const deltaX = touchEndX - touchStartX.current;
     const deltaY = touchEndY - touchStartY.current;
 
+    // A full-width drag scrubs across the whole clip
+    if (isScrubbingRef.current) {
+      const target = scrubOriginRef.current + (deltaX / window.innerWidth) * duration;
+      setScrubPosition(Math.max(0, Math.min(target, duration)));
+      return;
+    }
+
+    if (!isTouchMoveRef.current && duration > 0 &&
+        Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > SCRUB_THRESHOLD) {
+      console.log('AudioFeed: Touch move detected as horizontal scrub', { deltaX, deltaY });
+      isScrubbingRef.current = true;
+      scrubOriginRef.current = position;
+      setScrubPosition(position);
+      return;
+    }
+
     if (Math.abs(deltaY) > Math.abs(deltaX) && Math.abs(deltaY) > 50) {
       console.log('AudioFeed: Touch move detected as vertical swipe', { deltaX, deltaY });
       isTouchMoveRef.current = true;
     }
-  }, []);
+  }, [duration, position]);
 
   const handleTouchEnd = useCallback((e: React.TouchEvent) => {
     console.log('AudioFeed: Touch end');
@@ -126,7 +675,11 @@ export default function AudioFeed() {
     const touchEndTime = Date.now();
     const touchDuration = touchEndTime - touchStartTime.current;
     
-    if (isTouchMoveRef.current) {
+    if (isScrubbingRef.current) {
+      isScrubbingRef.current = false;
+      if (scrubPosition !== null) seekTo(scrubPosition);
+      setScrubPosition(null);
+    } else if (isTouchMoveRef.current) {
       const deltaY = touchEndY - touchStartY.current;
       console.log('AudioFeed: Processing vertical swipe', { deltaY });
       if (Math.abs(deltaY) > 50) {
@@ -151,194 +704,342 @@ export default function AudioFeed() {
 
     touchStartX.current = 0;
     touchStartY.current = 0;
-  }, [handlePrevious, handleNext, handleDoubleTap, handleTap]);
+  }, [handlePrevious, handleNext, handleDoubleTap, handleTap, scrubPosition, seekTo]);
 
-  // Audio preloading
-  const preloadAudio = useCallback(async (url: string) => {
-    if (!url || url.includes('.emptyFolderPlaceholder')) return;
-    
-    if (preloadedAudiosRef.current.size >= maxPreloadCount) {
-      console.log('AudioFeed: Max preload count reached, skipping', { url });
-      return;
+  // Initial setup
+  useEffect(() => {
+    const initializeAudio = async () => {
+      try {
+        await fetchSnippets();
+        console.log('AudioFeed: Initial setup complete');
+        // Start in paused state
+        setAutoplayEnabled(true);
+        setIsPlaying(false);
+      } catch (error) {
+        console.error('AudioFeed: Failed to initialize:', error);
+      }
+    };
+
+    initializeAudio();
+  }, [fetchSnippets]);
+
+  // Fetch the next page as the listener nears the end of the play order
+  useEffect(() => {
+    if (isLoading || !hasMore) return;
+    if (playOrder.length - currentIndex <= PREFETCH_THRESHOLD) {
+      loadMore();
     }
+  }, [isLoading, hasMore, playOrder.length, currentIndex, loadMore]);
 
-    if (preloadedAudiosRef.current.has(url)) {
-      const existing = preloadedAudiosRef.current.get(url);
-      if (existing?.error) {
-        console.log('AudioFeed: Retrying failed preload', { url });
-        preloadedAudiosRef.current.delete(url);
-      } else {
-        console.log('AudioFeed: Already preloaded or in progress', { url });
-        return;
-      }
+  // Complete a "next" that had to wait for a page to arrive
+  useEffect(() => {
+    if (!pendingAdvanceRef.current) return;
+    if (currentIndex + 1 < playOrder.length) {
+      pendingAdvanceRef.current = false;
+      setCurrentIndex(currentIndex + 1);
+      setIsPlaying(true);
+    } else if (!hasMore) {
+      pendingAdvanceRef.current = false;
+      startNextRound();
     }
+  }, [currentIndex, playOrder.length, hasMore, startNextRound]);
 
-    const audio = new Audio();
-    audio.crossOrigin = "anonymous";
-    audio.preload = "auto";
+  // Subscribe to snippets published while the feed is open
+  const queueNewSnippetRef = useRef(queueNewSnippet);
+  useEffect(() => {
+    queueNewSnippetRef.current = queueNewSnippet;
+  }, [queueNewSnippet]);
 
-    preloadedAudiosRef.current.set(url, {
-      audio,
-      loaded: false,
-      error: false
+  useEffect(() => {
+    if (isLoading) return;
+    return subscribeToNewSnippets(snippet => {
+      if (matchesFeedFilter(snippet, filterRef.current)) queueNewSnippetRef.current(snippet, false);
+      else if (snippet.parent_id) refreshReplyCount(snippet.parent_id);
     });
+  }, [isLoading, refreshReplyCount]);
+
+  // The listener's own uploads are queued whatever the source, except
+  // replies, which only count towards their parent outside its thread
+  const queueOwnUpload = useCallback((snippet: AudioSnippet, jump: boolean) => {
+    if (snippet.parent_id && !matchesFeedFilter(snippet, filterRef.current)) {
+      refreshReplyCount(snippet.parent_id);
+      return;
+    }
+    queueNewSnippetRef.current(snippet, jump);
+  }, [refreshReplyCount]);
+
+  const handleUploaded = useCallback((snippet: AudioSnippet) => {
+    queueOwnUpload(snippet, jumpToOwnUploads);
+  }, [queueOwnUpload, jumpToOwnUploads]);
+
+  // Upload recordings queued while offline, now and whenever the connection returns
+  useEffect(() => {
+    const flush = () => {
+      flushUploadQueue(snippet => queueOwnUpload(snippet, false))
+        .catch(error => console.error('AudioFeed: Failed to flush upload queue:', error));
+    };
+
+    const updateQueueState = (state: UploadQueueState) => {
+      setPendingUploads(state.pending);
+      setFailedUploads(state.failed);
+    };
+    const unsubscribe = subscribeToUploadQueue(updateQueueState);
+    getUploadQueueState()
+      .then(updateQueueState)
+      .catch(error => console.error('AudioFeed: Failed to read upload queue:', error));
+    flush();
+    window.addEventListener('online', flush);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', flush);
+    };
+  }, [queueOwnUpload]);
 
-    console.log('AudioFeed: Starting preload', { url });
+  const handleRetryUpload = useCallback(async (id: number) => {
+    try {
+      await retryUpload(id, snippet => queueOwnUpload(snippet, false));
+    } catch (error) {
+      console.error('AudioFeed: Failed to retry upload:', error);
+      setNotice("Couldn't retry the upload. Please try again.");
+    }
+  }, [queueOwnUpload]);
 
+  const handleDiscardUpload = useCallback(async (id: number) => {
     try {
-      await new Promise((resolve, reject) => {
-        const onCanPlay = () => {
-          console.log('AudioFeed: Preload complete', { url });
-          audio.removeEventListener('canplaythrough', onCanPlay);
-          audio.removeEventListener('error', onError);
-          const entry = preloadedAudiosRef.current.get(url);
-          if (entry) {
-            entry.loaded = true;
-          }
-          resolve(true);
-        };
-
-        const onError = (e: Event) => {
-          console.error('AudioFeed: Preload error', { url, error: e });
-          audio.removeEventListener('canplaythrough', onCanPlay);
-          audio.removeEventListener('error', onError);
-          const entry = preloadedAudiosRef.current.get(url);
-          if (entry) {
-            entry.error = true;
-          }
-          reject(e);
-        };
-
-        audio.addEventListener('canplaythrough', onCanPlay);
-        audio.addEventListener('error', onError);
-        audio.src = url;
-        audio.load();
-      });
+      await discardUpload(id);
     } catch (error) {
-      console.error('AudioFeed: Preload failed', { url, error });
-      const entry = preloadedAudiosRef.current.get(url);
-      if (entry) {
-        entry.error = true;
-        entry.audio.src = '';
-        entry.audio.load();
-      }
-      throw error;
+      console.error('AudioFeed: Failed to discard upload:', error);
     }
   }, []);
 
-  const processPreloadQueue = useCallback(async () => {
-    if (isPreloadingRef.current || preloadQueueRef.current.length === 0) return;
+  const closeFailedUploads = useCallback(() => setShowFailedUploads(false), []);
 
-    isPreloadingRef.current = true;
-    console.log('AudioFeed: Processing preload queue', { 
-      queueLength: preloadQueueRef.current.length 
+  // A new snippet stops being "new" once the listener moves past it
+  const currentTrackId = getCurrentTrack()?.id ?? null;
+  useEffect(() => {
+    const previousId = previousTrackIdRef.current;
+    previousTrackIdRef.current = currentTrackId;
+    if (!previousId || previousId === currentTrackId) return;
+    setFreshIds(prev => {
+      if (!prev.has(previousId)) return prev;
+      const next = new Set(prev);
+      next.delete(previousId);
+      return next;
     });
+  }, [currentTrackId]);
 
-    try {
-      const url = preloadQueueRef.current[0];
-      await preloadAudio(url);
-      preloadQueueRef.current.shift();
-    } catch (error) {
-      console.error('AudioFeed: Queue processing error', error);
-      const failedUrl = preloadQueueRef.current.shift();
-      if (failedUrl) {
-        preloadQueueRef.current.push(failedUrl);
-      }
-    } finally {
-      isPreloadingRef.current = false;
-      if (preloadQueueRef.current.length > 0) {
-        setTimeout(() => processPreloadQueue(), 1000);
-      }
-    }
-  }, [preloadAudio]);
+  // Each track starts from zero until the player reports otherwise
+  useEffect(() => {
+    setPosition(0);
+    setMediaDuration(0);
+    setScrubPosition(null);
+  }, [currentTrackId]);
 
-  const queuePreload = useCallback((url: string) => {
-    if (!url || url.includes('.emptyFolderPlaceholder')) return;
-    
-    if (!preloadQueueRef.current.includes(url) && !preloadedAudiosRef.current.has(url)) {
-      console.log('AudioFeed: Queueing preload', { url });
-      preloadQueueRef.current.push(url);
-      processPreloadQueue();
-    }
-  }, [processPreloadQueue]);
+  // Tell screen reader users when the snippet changes
+  const currentTrackDescription = currentTrackId ? describeSnippet(getCurrentTrack()!) : null;
+  useEffect(() => {
+    if (currentTrackDescription) setAnnouncement(`Now playing: ${currentTrackDescription}`);
+  }, [currentTrackId, currentTrackDescription]);
 
-  // Data fetching
-  const generatePlayOrder = useCallback((length: number) => {
-    const order = Array.from({ length }, (_, i) => i);
-    for (let i = order.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [order[i], order[j]] = [order[j], order[i]];
+  // Lock-screen and headset controls. Handlers are registered once and call
+  // through a ref, so they always reach the latest playback logic.
+  const mediaSessionHandlersRef = useRef<MediaSessionHandlers | null>(null);
+  useEffect(() => {
+    mediaSessionHandlersRef.current = {
+      play: () => {
+        if (!isPlaying) handlePlayPause();
+      },
+      pause: () => {
+        if (isPlaying) handlePlayPause();
+      },
+      nexttrack: handleNext,
+      previoustrack: handlePrevious,
+      seekto: seekTo,
+    };
+  }, [isPlaying, handlePlayPause, handleNext, handlePrevious, seekTo]);
+
+  useEffect(() => {
+    const removeHandlers = setMediaSessionActionHandlers({
+      play: () => mediaSessionHandlersRef.current?.play(),
+      pause: () => mediaSessionHandlersRef.current?.pause(),
+      nexttrack: () => mediaSessionHandlersRef.current?.nexttrack(),
+      previoustrack: () => mediaSessionHandlersRef.current?.previoustrack(),
+      seekto: time => mediaSessionHandlersRef.current?.seekto(time),
+    });
+    return () => {
+      removeHandlers();
+      setMediaSessionMetadata(null);
+    };
+  }, []);
+
+  // Artwork for the current track, kept while only its likes or replies change
+  const artworkRef = useRef<{ key: string; url: string } | null>(null);
+  const currentVisualStyle = visualizerPreference ?? getCurrentTrack()?.visual_style ?? DEFAULT_VISUALIZER_STYLE;
+  useEffect(() => {
+    const track = getCurrentTrack();
+    if (!track) {
+      setMediaSessionMetadata(null);
+      return;
     }
-    return order;
+    const key = `${track.id}:${currentVisualStyle}`;
+    if (artworkRef.current?.key === key) {
+      setMediaSessionMetadata(track, artworkRef.current.url);
+      return;
+    }
+    // The title goes up straight away; the artwork follows once it's drawn
+    setMediaSessionMetadata(track);
+    let cancelled = false;
+    drawVisualizerArtwork(track.id, currentVisualStyle, track.peaks).then(url => {
+      if (cancelled) return;
+      artworkRef.current = { key, url };
+      setMediaSessionMetadata(track, url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getCurrentTrack, currentVisualStyle]);
+
+  useEffect(() => {
+    setMediaSessionPlaybackState(isPlaying);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    setMediaSessionPosition(duration, position);
+  }, [duration, position]);
+
+  // Reports a finished listen and remembers clips heard to the end
+  const finishListen = useCallback((listen: Listen) => {
+    const outcome = reportListen(listen);
+    const session = sessionRef.current;
+    const kind = sourceRef.current.kind;
+    if (outcome !== 'complete' || !session || !listen.id || !isResumableSourceKind(kind)) return;
+    markHeard(session, listen.id);
+    heardIdsRef.current.add(listen.id);
+    // Not the URL: this also runs on unmount, when it may be another page's
+    saveFeedSession(kind, session);
   }, []);
 
-  const getCurrentTrack = useCallback(() => {
-    if (!snippets.length || !playOrder.length) return null;
-    const orderIndex = currentIndex % playOrder.length;
-    return snippets[playOrder[orderIndex]];
-  }, [snippets, playOrder, currentIndex]);
+  // Report how the last track was listened to once the listener moves on
+  const currentTrackPeaksDuration = getCurrentTrack()?.peaks?.duration ?? 0;
+  useEffect(() => {
+    const listen = listenRef.current;
+    if (listen.id === currentTrackId) {
+      listen.duration = currentTrackPeaksDuration;
+      return;
+    }
+    finishListen(listen);
+    listenRef.current = startListen(currentTrackId, currentTrackPeaksDuration);
+  }, [currentTrackId, currentTrackPeaksDuration, finishListen]);
 
-  const fetchSnippets = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const { data: snippetsData, error } = await supabase.storage
-        .from('audio-snippets')
-        .list('', {
-          limit: 100,
-          offset: 0,
-          sortBy: { column: 'created_at', order: 'desc' }
-        });
-
-      if (error) throw error;
-
-      console.log('AudioFeed: Raw snippets fetched:', snippetsData);
-
-      const rawSnippets = snippetsData.map(file => {
-        const url = supabase.storage
-          .from('audio-snippets')
-          .getPublicUrl(file.name);
-        
-        return {
-          url: url.data.publicUrl,
-          name: file.name,
-          created_at: file.created_at
-        };
-      });
+  useEffect(() => () => finishListen(listenRef.current), [finishListen]);
 
-      const filteredSnippets = rawSnippets.filter(s => !s.name.includes('.emptyFolderPlaceholder'));
-      console.log('AudioFeed: Filtered snippets', { 
-        before: rawSnippets.length, 
-        after: filteredSnippets.length,
-        snippets: filteredSnippets
-      });
+  // Save the listener's place, at most once a second while playing
+  const savedPosition = Math.floor(position);
+  useEffect(() => {
+    const session = sessionRef.current;
+    const kind = sourceRef.current.kind;
+    if (!session || !currentTrackId || !isResumableSourceKind(kind)) return;
+    session.trackId = currentTrackId;
+    session.position = savedPosition;
+    saveFeedSession(kind, session, { toUrl: sessionInUrl });
+  }, [currentTrackId, savedPosition, sessionInUrl]);
 
-      const newOrder = generatePlayOrder(filteredSnippets.length);
-      console.log('AudioFeed: Generated new play order', newOrder);
-      setPlayOrder(newOrder);
-      setSnippets(filteredSnippets);
-      setIsLoading(false);
-    } catch (error) {
-      console.error('AudioFeed: Failed to fetch snippets:', error);
-      setIsLoading(false);
+  // Playback through the shared audio engine
+  const currentTrackUrl = getCurrentTrack()?.url ?? null;
+  useEffect(() => {
+    if (!currentTrackUrl) return;
+    engine.load(currentTrackUrl, {
+      transition: nextTransitionRef.current,
+      element: preloadCache.take(currentTrackUrl),
+    });
+    nextTransitionRef.current = 'cut';
+    const resumeAt = resumeAtRef.current;
+    if (resumeAt && resumeAt.id === currentTrackId) {
+      console.log('AudioFeed: Resuming track', resumeAt);
+      engine.seek(resumeAt.position);
     }
-  }, [generatePlayOrder]);
+    resumeAtRef.current = null;
+  }, [engine, preloadCache, currentTrackUrl, currentTrackId, currentIndex]);
 
-  // Initial setup
+  // Keep the neighbours of the current track buffered, next ones first.
+  // Declared after the load above so the current track is taken before it
+  // drops out of the window.
   useEffect(() => {
-    const initializeAudio = async () => {
-      try {
-        await fetchSnippets();
-        console.log('AudioFeed: Initial setup complete');
-        // Start in paused state
-        setAutoplayEnabled(true);
-        setIsPlaying(false);
-      } catch (error) {
-        console.error('AudioFeed: Failed to initialize:', error);
+    const urls: string[] = [];
+    for (let distance = 1; distance <= PRELOAD_RADIUS; distance++) {
+      for (const index of [currentIndex + distance, currentIndex - distance]) {
+        const snippet = snippets[playOrder[index]];
+        if (snippet && snippet.url !== currentTrackUrl) urls.push(snippet.url);
       }
-    };
+    }
+    preloadCache.setWindow(urls);
+  }, [preloadCache, snippets, playOrder, currentIndex, currentTrackUrl]);
 
-    initializeAudio();
-  }, [fetchSnippets]);
+  useEffect(() => () => {
+    console.log('AudioFeed: Preload stats', preloadCache.getStats());
+    preloadCache.clear();
+  }, [preloadCache]);
+
+  // Without autoplay the current track repeats
+  useEffect(() => {
+    engine.setLoop(!autoplayEnabled);
+  }, [engine, autoplayEnabled, currentTrackUrl, currentIndex]);
+
+  useEffect(() => {
+    if (isPlaying && !isRecorderActive) {
+      engine.play();
+      return;
+    }
+    engine.pause();
+    // The matching play event is sent once time starts moving; see timeupdate
+    const listen = listenRef.current;
+    if (listen.id && listen.playing) {
+      trackEvent({ type: 'pause', snippet_id: listen.id, position_ms: Math.round(engine.currentTime * 1000) });
+      listen.playing = false;
+    }
+  }, [engine, isPlaying, isRecorderActive]);
+
+  // The engine outlives the feed; don't leave it playing
+  useEffect(() => () => engine.pause(), [engine]);
+
+  const handleTrackEndRef = useRef(handleTrackEnd);
+  const handleTrackEndingRef = useRef(handleTrackEnding);
+  useEffect(() => {
+    handleTrackEndRef.current = handleTrackEnd;
+    handleTrackEndingRef.current = handleTrackEnding;
+  }, [handleTrackEnd, handleTrackEnding]);
+
+  useEffect(() => {
+    const unsubscribes = [
+      engine.on('timeupdate', () => {
+        setPosition(engine.currentTime);
+        setMediaDuration(engine.duration);
+        const listen = listenRef.current;
+        const time = engine.currentTime;
+        const total = Number.isFinite(engine.duration) && engine.duration > 0 ? engine.duration : listen.duration;
+        if (total) listen.fraction = Math.max(listen.fraction, time / total);
+
+        const step = listen.lastTime === null ? 0 : time - listen.lastTime;
+        listen.lastTime = time;
+        if (step <= 0 || step > MAX_LISTEN_STEP) return;
+        listen.listenedMs += step * 1000;
+        if (listen.id && !listen.playing) {
+          trackEvent({ type: 'play', snippet_id: listen.id, position_ms: Math.round((time - step) * 1000) });
+          listen.playing = true;
+        }
+      }),
+      engine.on('ended', () => {
+        listenRef.current.reachedEnd = true;
+        handleTrackEndRef.current();
+      }),
+      engine.on('ending', () => {
+        listenRef.current.reachedEnd = true;
+        handleTrackEndingRef.current();
+      }),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [engine]);
 
   // Handle autoplay
   useEffect(() => {
@@ -346,26 +1047,99 @@ export default function AudioFeed() {
     setIsPlaying(true);
   }, [snippets.length, autoplayEnabled]);
 
-  // Handle keyboard navigation
+  // Keyboard shortcuts, listed for listeners in KeyboardShortcuts. R (hold
+  // to record) is handled by AudioRecorder.
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isRecorderActive || reportingSnippet || e.defaultPrevented) return;
+      if (hasCommandModifier(e) || isTypingTarget(e.target)) return;
+      if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(prev => !prev);
+        return;
+      }
+      if (showShortcuts) {
+        if (e.key === 'Escape') setShowShortcuts(false);
+        return;
+      }
       switch (e.key) {
+        case ' ':
+          // Space on a focused control presses that control instead
+          if (e.target instanceof HTMLButtonElement || e.target instanceof HTMLAnchorElement) return;
+          e.preventDefault();
+          handlePlayPause();
+          break;
+        case 'l':
+        case 'L': {
+          const track = getCurrentTrack();
+          if (track) toggleLike(track);
+          break;
+        }
+        case 'm':
+        case 'M':
+          toggleMute();
+          break;
         case 'ArrowUp':
-        case 'ArrowLeft':
           handlePrevious();
           break;
         case 'ArrowDown':
-        case 'ArrowRight':
           handleNext();
           break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          seekTo(position - SEEK_STEP);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          seekTo(position + SEEK_STEP);
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleNext, handlePrevious]);
+  }, [
+    handleNext, handlePrevious, handlePlayPause, seekTo, toggleLike, toggleMute, getCurrentTrack,
+    position, isRecorderActive, reportingSnippet, showShortcuts,
+  ]);
+
+  // Visualizer style
+  useEffect(() => {
+    setVisualizerPreference(loadVisualizerPreference());
+  }, []);
+
+  const handleVisualizerChange = useCallback((style: VisualizerStyle | null) => {
+    setVisualizerPreference(style);
+    saveVisualizerPreference(style);
+  }, []);
+
+  // Captions
+  useEffect(() => {
+    setCaptionsEnabled(loadCaptionsPreference());
+  }, []);
+
+  const toggleCaptions = useCallback(() => {
+    setCaptionsEnabled(prev => {
+      saveCaptionsPreference(!prev);
+      return !prev;
+    });
+  }, []);
+
+  const currentCaptions = getCurrentTrack()?.captions ?? null;
+  const captionCues = useMemo<CaptionCue[]>(() => {
+    if (!currentCaptions) return [];
+    try {
+      return parseWebVTT(currentCaptions);
+    } catch (error) {
+      console.error('AudioFeed: Failed to parse captions', error);
+      return [];
+    }
+  }, [currentCaptions]);
 
   // UI
+  const currentTrack = getCurrentTrack();
+  const activeCue = captionsEnabled ? findActiveCue(captionCues, scrubPosition ?? position) : null;
+
   if (isLoading) {
     return (
       <div className="h-screen bg-black flex items-center justify-center">
@@ -382,107 +1156,409 @@ export default function AudioFeed() {
       onTouchEnd={handleTouchEnd}
       onClick={handleClick}
     >
+      {/* Swipes and taps have no keyboard equivalent, so these show on focus */}
+      <div
+        className="absolute top-20 left-4 z-20 flex gap-2"
+        onClick={(e) => e.stopPropagation()}
+        onTouchEnd={(e) => e.stopPropagation()}
+      >
+        {[
+          { label: 'Previous snippet', onClick: handlePrevious },
+          { label: isPlaying ? 'Pause' : 'Play', onClick: handlePlayPause },
+          { label: 'Next snippet', onClick: handleNext },
+          { label: 'Keyboard shortcuts', onClick: () => setShowShortcuts(true) },
+        ].map(control => (
+          <button
+            key={control.label}
+            className={`sr-only focus:not-sr-only h-8 px-3 rounded-full bg-white/10 text-white text-sm ${FOCUS_RING}`}
+            onClick={control.onClick}
+          >
+            {control.label}
+          </button>
+        ))}
+      </div>
+
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-10 p-4">
         <div className="bg-white/10 backdrop-blur-lg rounded-full px-4 py-2 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 rounded-full bg-white" />
             <span className="text-white text-sm">wavelength</span>
+            {freshIds.size > 0 && (
+              <span className="flex items-center gap-1 text-white/60 text-xs" aria-live="polite">
+                <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
+                {freshIds.size} new
+              </span>
+            )}
+            {pendingUploads > 0 && (
+              <span className="text-white/60 text-xs" aria-live="polite">
+                {pendingUploads} waiting to upload
+              </span>
+            )}
+            {failedUploads.length > 0 && (
+              <button
+                className={`text-red-300 text-xs underline ${FOCUS_RING}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowFailedUploads(true);
+                }}
+                onTouchEnd={(e) => e.stopPropagation()}
+              >
+                {failedUploads.length} couldn&apos;t upload
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/me"
+              className={`h-8 px-3 rounded-full bg-white/10 flex items-center text-white/80 text-sm hover:bg-white/20 transition-all ${FOCUS_RING}`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              My snippets
+            </Link>
+            <ChannelPicker value={source.kind === 'tag' ? source.tag : null} />
+            <VisualizerPicker value={visualizerPreference} onChange={handleVisualizerChange} />
+            <button 
+              className={`group h-8 px-3 rounded-full bg-white/10 flex items-center gap-2 cursor-pointer hover:bg-white/20 transition-all ${FOCUS_RING}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                setAutoplayEnabled(prev => !prev);
+              }}
+            >
+              <div className={`w-2 h-2 rounded-full transition-all ${
+                autoplayEnabled ? 'bg-white' : 'bg-white/50'
+              }`} />
+              <span className={`text-sm transition-all ${
+                autoplayEnabled ? 'text-white' : 'text-white/50'
+              }`}>
+                {autoplayEnabled ? 'Autoplay On' : 'Autoplay Off'}
+              </span>
+            </button>
           </div>
-          <button 
-            className="group h-8 px-3 rounded-full bg-white/10 flex items-center gap-2 cursor-pointer hover:bg-white/20 transition-all"
-            onClick={(e) => {
-              e.stopPropagation();
-              setAutoplayEnabled(prev => !prev);
-            }}
-          >
-            <div className={`w-2 h-2 rounded-full transition-all ${
-              autoplayEnabled ? 'bg-white' : 'bg-white/50'
-            }`} />
-            <span className={`text-sm transition-all ${
-              autoplayEnabled ? 'text-white' : 'text-white/50'
-            }`}>
-              {autoplayEnabled ? 'Autoplay On' : 'Autoplay Off'}
-            </span>
-          </button>
         </div>
       </div>
 
+      {(onSourceChange || overlay || resumable) && (
+        <div className="absolute top-20 left-0 right-0 z-10 px-4 flex flex-col items-center gap-3">
+          {onSourceChange && (
+            <div className="flex gap-1 p-1 rounded-full bg-white/10 backdrop-blur-lg" role="tablist">
+              {FEED_TABS.map(tab => (
+                <button
+                  key={tab.source.kind}
+                  role="tab"
+                  aria-selected={source.kind === tab.source.kind}
+                  className={`h-7 px-3 rounded-full text-sm whitespace-nowrap transition-all ${FOCUS_RING} ${
+                    source.kind === tab.source.kind ? 'bg-white text-black' : 'text-white/60 hover:text-white'
+                  }`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (source.kind !== tab.source.kind) onSourceChange(tab.source);
+                  }}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {resumable && (
+            <button
+              className={`text-white/50 text-xs hover:text-white transition-all ${FOCUS_RING}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleStartFresh();
+              }}
+            >
+              Start fresh
+            </button>
+          )}
+          {overlay && <div onClick={(e) => e.stopPropagation()}>{overlay}</div>}
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="absolute inset-0">
         {getCurrentTrack() && (
           <AudioVisualizer
-            audioUrl={getCurrentTrack()!.url}
-            isPlaying={isPlaying}
-            preloadedAudio={preloadedAudiosRef.current.get(getCurrentTrack()!.url)?.audio}
-            onEnded={handleTrackEnd}
-            autoplayEnabled={autoplayEnabled}
+            visualStyle={currentVisualStyle}
+            label={`Visualizer for ${currentTrackDescription}`}
           />
         )}
       </div>
 
       {/* Status Text */}
       <div className="absolute inset-x-0 top-1/4 flex flex-col items-center text-white/50 text-sm gap-1">
-        <div>Autoplay</div>
-        <div>Endless audio stream</div>
+        {currentTrackId && freshIds.has(currentTrackId) && (
+          <div className="px-2 py-0.5 rounded-full bg-white/10 text-white/80 text-xs">new</div>
+        )}
+        {currentTrack?.owner && (
+          <Link
+            href={`/u/${currentTrack.owner.handle}`}
+            className={`flex items-center gap-2 px-3 py-1 rounded-full bg-white/10 text-white text-sm hover:bg-white/20 transition-all ${FOCUS_RING}`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: currentTrack.owner.avatar_color }} />
+            @{currentTrack.owner.handle}
+          </Link>
+        )}
+        {!!currentTrack?.tags.length && (
+          <div className="flex flex-wrap justify-center gap-1">
+            {currentTrack.tags.map(tag => (
+              <Link
+                key={tag}
+                href={tagPath(tag)}
+                className={`px-2 py-0.5 rounded-full bg-white/10 text-white/70 text-xs hover:bg-white/20 transition-all ${FOCUS_RING}`}
+                onClick={(e) => e.stopPropagation()}
+              >
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        )}
+        {snippets.length ? (
+          <>
+            <div>Autoplay</div>
+            <div>Endless audio stream</div>
+          </>
+        ) : (
+          <div>
+            {EMPTY_FEED_MESSAGES[source.kind] ?? 'No snippets yet.'}
+          </div>
+        )}
       </div>
 
-      {/* Progress Bar */}
-      <div className="absolute right-4 top-1/2 -translate-y-1/2 w-1 h-48 bg-white/10 rounded-full">
-        <div 
-          className="w-full bg-white rounded-full transition-all"
-          style={{ 
-            height: `${(currentIndex / (snippets.length - 1)) * 100}%`,
-          }}
-        />
-      </div>
+      {/* Captions: the cue at the playhead, over the visualizer */}
+      {activeCue && (
+        <div className="absolute inset-x-6 bottom-80 flex justify-center pointer-events-none">
+          <div className="max-w-md px-3 py-1.5 rounded-lg bg-black/70 text-white text-base text-center whitespace-pre-line">
+            {activeCue.text}
+          </div>
+        </div>
+      )}
 
-      {/* Interaction Instructions */}
-      <div className="absolute inset-x-0 bottom-32 flex flex-col items-center text-white/50 text-sm gap-1">
-        <div>Swipe</div>
-        <div>Double tap to like</div>
-        <div>Tap to pause</div>
+      {/* Progress Bar: position within the loaded queue, which keeps growing */}
+      <div className="absolute right-4 top-1/3 -translate-y-1/2 flex flex-col items-center gap-2">
+        <div className={`w-1 h-48 rounded-full ${hasMore ? 'bg-gradient-to-b from-white/10 to-transparent' : 'bg-white/10'}`}>
+          <div 
+            className="w-full bg-white rounded-full transition-all"
+            style={{ 
+              height: `${playOrder.length ? ((currentIndex + 1) / playOrder.length) * 100 : 0}%`,
+            }}
+          />
+        </div>
+        <span className="text-white/50 text-xs tabular-nums">
+          {currentIndex + 1}/{playOrder.length}{hasMore ? '+' : ''}
+        </span>
       </div>
 
-      {/* Record Button */}
-      <div className="absolute bottom-8 inset-x-0 flex justify-center">
-        <div className="relative">
-          <svg
-            className="absolute inset-0 -rotate-90 w-12 h-12"
-            viewBox="0 0 36 36"
+      {/* Waveform and time: click to seek, or drag horizontally anywhere */}
+      {getCurrentTrack() && (
+        <div className="absolute left-6 right-20 bottom-60 flex flex-col gap-1">
+          <div
+            className="relative h-10 cursor-pointer"
+            onClick={(e) => {
+              e.stopPropagation();
+              const rect = e.currentTarget.getBoundingClientRect();
+              seekTo(((e.clientX - rect.left) / rect.width) * duration);
+            }}
           >
-            <circle
-              cx="18"
-              cy="18"
-              r="16"
-              fill="none"
-              stroke="rgba(255, 255, 255, 0.2)"
-              strokeWidth="2"
-            />
-            {isRecording && (
-              <circle
-                cx="18"
-                cy="18"
-                r="16"
-                fill="none"
-                stroke="white"
-                strokeWidth="2"
-                strokeDasharray={`${recordingProgress * 100.53} 100.53`}
-                strokeLinecap="round"
+            {getCurrentTrack()!.peaks ? (
+              <SnippetWaveform
+                peaks={getCurrentTrack()!.peaks!}
+                progress={duration ? (scrubPosition ?? position) / duration : 0}
+                className="w-full h-full"
               />
+            ) : (
+              <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1 rounded-full bg-white/20">
+                <div
+                  className="h-full rounded-full bg-white"
+                  style={{ width: `${duration ? ((scrubPosition ?? position) / duration) * 100 : 0}%` }}
+                />
+              </div>
             )}
-          </svg>
+          </div>
+          <div className="flex items-center justify-between text-white/50 text-xs tabular-nums">
+            <span>{formatTime(scrubPosition ?? position)}</span>
+            <div className="flex items-center gap-2">
+              <button
+                className={`px-1.5 rounded border text-[10px] font-semibold transition-all ${FOCUS_RING} ${
+                  captionsEnabled ? 'border-white text-white' : 'border-white/30 text-white/30'
+                }`}
+                aria-label="Captions"
+                aria-pressed={captionsEnabled}
+                title={captionCues.length ? undefined : 'This snippet has no captions'}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleCaptions();
+                }}
+                onTouchEnd={(e) => e.stopPropagation()}
+              >
+                CC
+              </button>
+              <button
+                className={`px-1.5 rounded border text-[10px] font-semibold transition-all ${FOCUS_RING} ${
+                  isMuted ? 'border-white text-white' : 'border-white/30 text-white/30'
+                }`}
+                aria-label="Mute"
+                aria-pressed={isMuted}
+                aria-keyshortcuts="M"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleMute();
+                }}
+                onTouchEnd={(e) => e.stopPropagation()}
+              >
+                {isMuted ? 'MUTED' : 'MUTE'}
+              </button>
+            </div>
+            <span>{duration ? `-${formatTime(duration - (scrubPosition ?? position))}` : '--:--'}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Likes */}
+      {getCurrentTrack() && (
+        <div className="absolute right-4 bottom-32 flex flex-col items-center gap-1">
+          <button
+            className={`w-10 h-10 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-all ${FOCUS_RING}`}
+            aria-label={getCurrentTrack()!.liked ? 'Unlike' : 'Like'}
+            aria-keyshortcuts="L"
+            aria-pressed={!!getCurrentTrack()!.liked}
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleLike(getCurrentTrack()!);
+            }}
+            onTouchEnd={(e) => e.stopPropagation()}
+          >
+            <svg
+              className={`w-5 h-5 transition-all ${
+                getCurrentTrack()!.liked ? 'text-red-500 scale-110' : 'text-white/70'
+              }`}
+              viewBox="0 0 24 24"
+              fill={getCurrentTrack()!.liked ? 'currentColor' : 'none'}
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M12 21s-7.5-4.6-9.5-9.1C1.1 8.6 3.2 5 6.6 5c2 0 3.6 1.1 4.4 2.6h2C13.8 6.1 15.4 5 17.4 5c3.4 0 5.5 3.6 4.1 6.9C19.5 16.4 12 21 12 21z" />
+            </svg>
+          </button>
+          <span className="text-white/70 text-xs tabular-nums">
+            {getCurrentTrack()!.like_count}
+          </span>
+          <button
+            className={`mt-2 w-10 h-10 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-all ${FOCUS_RING}`}
+            aria-label="Share"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleShare(getCurrentTrack()!);
+            }}
+            onTouchEnd={(e) => e.stopPropagation()}
+          >
+            <svg
+              className="w-5 h-5 text-white/70"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M4 12v7a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-7M16 6l-4-4-4 4M12 2v13" />
+            </svg>
+          </button>
+          {!isThread && !getCurrentTrack()!.parent_id && (
+            <>
+              <Link
+                href={threadPath(getCurrentTrack()!.id)}
+                className={`mt-2 w-10 h-10 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-all ${FOCUS_RING}`}
+                aria-label={`Replies (${getCurrentTrack()!.reply_count})`}
+                onClick={(e) => e.stopPropagation()}
+                onTouchEnd={(e) => e.stopPropagation()}
+              >
+                <svg
+                  className="w-5 h-5 text-white/70"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinejoin="round"
+                >
+                  <path d="M21 12a8 8 0 0 1-11.6 7.1L4 20l1-4.6A8 8 0 1 1 21 12z" />
+                </svg>
+              </Link>
+              <span className="text-white/70 text-xs tabular-nums">
+                {getCurrentTrack()!.reply_count}
+              </span>
+            </>
+          )}
           <button
-            className="w-12 h-12 rounded-full bg-white flex items-center justify-center touch-none"
+            className={`mt-2 w-10 h-10 rounded-full bg-white/10 flex items-center justify-center hover:bg-white/20 transition-all ${FOCUS_RING}`}
+            aria-label="Report"
+            onClick={(e) => {
+              e.stopPropagation();
+              setReportingSnippet(getCurrentTrack());
+            }}
+            onTouchEnd={(e) => e.stopPropagation()}
           >
-            <div className="w-8 h-8 rounded-full transition-all bg-black" />
+            <svg
+              className="w-4 h-4 text-white/50"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M4 22V4M4 4h13l-2 4 2 4H4" />
+            </svg>
           </button>
         </div>
+      )}
+
+      {reportingSnippet && (
+        <ReportSheet onSubmit={handleReport} onClose={() => setReportingSnippet(null)} />
+      )}
+
+      {showShortcuts && <KeyboardShortcuts onClose={() => setShowShortcuts(false)} />}
+
+      {showFailedUploads && (
+        <FailedUploadsSheet
+          uploads={failedUploads}
+          onRetry={handleRetryUpload}
+          onDiscard={handleDiscardUpload}
+          onClose={closeFailedUploads}
+        />
+      )}
+
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
+      {notice && (
+        <div
+          role="status"
+          className="absolute bottom-72 inset-x-0 mx-auto w-fit px-3 py-1 rounded-full bg-white text-black text-sm"
+        >
+          {notice}
+        </div>
+      )}
+
+      {/* Interaction Instructions */}
+      <div className="absolute inset-x-0 bottom-32 flex flex-col items-center text-white/50 text-sm gap-1">
+        <div>Swipe</div>
+        <div>Drag sideways to seek</div>
+        <div>Double tap to like</div>
+        <div>Tap to pause</div>
       </div>
 
-      {/* Hold to Record Text */}
-      <div className="absolute bottom-4 inset-x-0 text-center text-white/50 text-sm">
-        Hold to record
+      {/* Record Button */}
+      <div className="absolute bottom-6 inset-x-0 flex justify-center">
+        <AudioRecorder
+          maxDurationMs={maxRecordingMs}
+          onUploaded={handleUploaded}
+          onActiveChange={setIsRecorderActive}
+          // In a thread every take replies to its first snippet
+          replyTo={isThread ? initialSnippet ?? currentTrack : currentTrack}
+          replyByDefault={isThread}
+          holdKey="r"
+        />
       </div>
     </div>
   );
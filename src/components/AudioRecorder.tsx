@@ -1,75 +1,416 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { supabase } from '@/lib/supabase';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { AudioSnippet } from '@/lib/snippets';
+import {
+  MAX_SNIPPET_SECONDS,
+  MIN_SNIPPET_SECONDS,
+  SnippetUploadError,
+  SnippetUploadOptions,
+  uploadSnippet,
+} from '@/lib/snippetUpload';
+import { pickRecordingFormat } from '@/lib/audioFormats';
+import { isOffline } from '@/lib/offline';
+import { enqueueUpload } from '@/lib/uploadQueue';
+import { hasCommandModifier, isTypingTarget } from '@/lib/keyboard';
+import RecordingReview from './RecordingReview';
 
-export default function AudioRecorder() {
-  const [isRecording, setIsRecording] = useState(false);
-  const mediaRecorder = useRef<MediaRecorder | null>(null);
-  const audioChunks = useRef<Blob[]>([]);
+interface AudioRecorderProps {
+  // Recording stops by itself once it reaches this length
+  maxDurationMs?: number;
+  onUploaded?: (snippet: AudioSnippet) => void;
+  // True from the start of a recording until it is published or thrown away
+  onActiveChange?: (active: boolean) => void;
+  // Snippet on screen; a take started while it shows can be posted as a reply
+  replyTo?: AudioSnippet | null;
+  // Start the review step on "reply" rather than "new snippet"
+  replyByDefault?: boolean;
+  // Key that records while held, like holding the button down
+  holdKey?: string;
+}
 
-  const startRecording = async () => {
+type RecorderState = 'idle' | 'starting' | 'recording' | 'reviewing' | 'uploading';
+
+// Dragging the pointer this far from where the hold started cancels on release
+const CANCEL_DISTANCE = 80;
+// Circumference of the r=16 progress ring
+const RING_LENGTH = 100.53;
+
+export default function AudioRecorder({
+  maxDurationMs = 30_000,
+  onUploaded,
+  onActiveChange,
+  replyTo = null,
+  replyByDefault = false,
+  holdKey,
+}: AudioRecorderProps) {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [recording, setRecording] = useState<Blob | null>(null);
+  // What was on screen when the hold started; the feed may move on meanwhile
+  const [replyTarget, setReplyTarget] = useState<AudioSnippet | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Whether the current hold is the hold key rather than a pointer
+  const [isKeyHold, setIsKeyHold] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [noticeMessage, setNoticeMessage] = useState<string | null>(null);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const startTimeRef = useRef(0);
+  const animationRef = useRef<number>();
+  // Enforces the length limit; animation frames stall in background tabs
+  const limitTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const pointerIdRef = useRef<number | null>(null);
+  const pointerOriginRef = useRef({ x: 0, y: 0 });
+  const isHoldingRef = useRef(false);
+  const discardRef = useRef(false);
+
+  const maxDuration = Math.min(maxDurationMs, MAX_SNIPPET_SECONDS * 1000);
+
+  // Errors and notices fade out on their own after a few seconds
+  useEffect(() => {
+    if (!errorMessage) return;
+    const timeout = setTimeout(() => setErrorMessage(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [errorMessage]);
+
+  useEffect(() => {
+    if (!noticeMessage) return;
+    const timeout = setTimeout(() => setNoticeMessage(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [noticeMessage]);
+
+  useEffect(() => {
+    onActiveChange?.(state !== 'idle');
+  }, [state, onActiveChange]);
+
+  // Keeps a take that can't reach the server for the upload queue
+  const queueForLater = useCallback(async (clip: Blob, options: SnippetUploadOptions) => {
+    await enqueueUpload(clip, options);
+    setRecording(null);
+    setState('idle');
+    setNoticeMessage("You're offline. Your recording will upload when you reconnect.");
+  }, []);
+
+  // Failed uploads return to the review step so the take isn't lost
+  const publish = useCallback(async (clip: Blob, options: SnippetUploadOptions) => {
+    setErrorMessage(null);
+    setState('uploading');
+    try {
+      if (isOffline()) {
+        await queueForLater(clip, options);
+        return;
+      }
+      const snippet = await uploadSnippet(clip, options);
+      setRecording(null);
+      setState('idle');
+      onUploaded?.(snippet);
+    } catch (err) {
+      if (err instanceof SnippetUploadError && err.code === 'network_error') {
+        try {
+          await queueForLater(clip, options);
+          return;
+        } catch (queueError) {
+          console.error('AudioRecorder: Could not queue upload', queueError);
+        }
+      }
+      console.error('AudioRecorder: Upload failed', err);
+      setErrorMessage(
+        err instanceof SnippetUploadError ? err.message : 'Upload failed. Please try again.'
+      );
+      setState('reviewing');
+    }
+  }, [onUploaded, queueForLater]);
+
+  const discardRecording = useCallback(() => {
+    setRecording(null);
+    setErrorMessage(null);
+    setState('idle');
+  }, []);
+
+  const stopRecording = useCallback((discard: boolean) => {
+    isHoldingRef.current = false;
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    clearTimeout(limitTimerRef.current);
+
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+
+    discardRef.current = discard;
+    recorder.stop();
+    recorder.stream.getTracks().forEach(track => track.stop());
+    mediaRecorderRef.current = null;
+  }, []);
+
+  // Only draws the progress ring; the limit itself is a timer
+  const tick = useCallback(() => {
+    const elapsed = Date.now() - startTimeRef.current;
+    setProgress(Math.min(elapsed / maxDuration, 1));
+    if (elapsed < maxDuration) animationRef.current = requestAnimationFrame(tick);
+  }, [maxDuration]);
+
+  const startRecording = useCallback(async () => {
+    setErrorMessage(null);
+
+    const format = pickRecordingFormat();
+    if (!format) {
+      console.error('AudioRecorder: No supported recording format');
+      setErrorMessage("Recording isn't supported in this browser.");
+      return;
+    }
+    console.log('AudioRecorder: Recording as', format.mimeType);
+    setState('starting');
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error('AudioRecorder: Error accessing microphone', err);
+      setErrorMessage('Microphone access is needed to record.');
+      setState('idle');
+      return;
+    }
+
+    // The hold ended while the permission prompt was still open
+    if (!isHoldingRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      setState('idle');
+      return;
+    }
+
+    // Either MediaRecorder step can throw; the microphone mustn't stay open
+    const abandonStart = (err: unknown) => {
+      console.error('AudioRecorder: Could not start recording', err);
+      mediaRecorderRef.current = null;
+      stream.getTracks().forEach(track => track.stop());
+      setErrorMessage("Recording couldn't start. Please try again.");
+      setState('idle');
+    };
+
+    let recorder: MediaRecorder;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorder.current = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus',
+      recorder = new MediaRecorder(stream, {
+        mimeType: format.mimeType,
         audioBitsPerSecond: 64000,
       });
+    } catch (err) {
+      abandonStart(err);
+      return;
+    }
+    mediaRecorderRef.current = recorder;
+    audioChunksRef.current = [];
+    discardRef.current = false;
 
-      mediaRecorder.current.ondataavailable = (e) => {
-        audioChunks.current.push(e.data);
-      };
-
-      mediaRecorder.current.onstop = async () => {
-        const audioBlob = new Blob(audioChunks.current, { type: 'audio/webm' });
-        audioChunks.current = [];
-        
-        const fileName = `snippet-${Date.now()}.webm`;
-        const { data, error } = await supabase.storage
-          .from('audio-snippets')
-          .upload(fileName, audioBlob, {
-            contentType: 'audio/webm',
-          });
-
-        if (error) {
-          console.error('Error uploading audio:', error);
-        }
-      };
+    recorder.ondataavailable = (e) => {
+      audioChunksRef.current.push(e.data);
+    };
 
-      mediaRecorder.current.start();
-      setIsRecording(true);
+    recorder.onstop = () => {
+      const duration = Date.now() - startTimeRef.current;
+      const audioBlob = new Blob(audioChunksRef.current, { type: format.contentType });
+      audioChunksRef.current = [];
+      setProgress(0);
+      setIsCancelling(false);
+
+      if (discardRef.current) {
+        console.log('AudioRecorder: Recording cancelled');
+        setState('idle');
+      } else if (duration < MIN_SNIPPET_SECONDS * 1000) {
+        setErrorMessage('Hold the button to record.');
+        setState('idle');
+      } else {
+        setRecording(audioBlob);
+        setState('reviewing');
+      }
+    };
+
+    try {
+      recorder.start();
     } catch (err) {
-      console.error('Error accessing microphone:', err);
+      abandonStart(err);
+      return;
     }
-  };
+    startTimeRef.current = Date.now();
+    setState('recording');
+    animationRef.current = requestAnimationFrame(tick);
+    limitTimerRef.current = setTimeout(() => {
+      console.log('AudioRecorder: Max duration reached, stopping');
+      stopRecording(false);
+    }, maxDuration);
+  }, [tick, maxDuration, stopRecording]);
 
-  const stopRecording = () => {
-    if (mediaRecorder.current && isRecording) {
-      mediaRecorder.current.stop();
-      mediaRecorder.current.stream.getTracks().forEach(track => track.stop());
-      setIsRecording(false);
-    }
-  };
+  // Pointer events cover mouse, touch and pen with a single code path, so a
+  // touch can't also trigger the emulated mouse events and start twice.
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!e.isPrimary || e.button !== 0 || state !== 'idle') return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerIdRef.current = e.pointerId;
+    pointerOriginRef.current = { x: e.clientX, y: e.clientY };
+    isHoldingRef.current = true;
+    setIsCancelling(false);
+    setReplyTarget(replyTo);
+    startRecording();
+  }, [state, replyTo, startRecording]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.pointerId !== pointerIdRef.current) return;
+    const dx = e.clientX - pointerOriginRef.current.x;
+    const dy = e.clientY - pointerOriginRef.current.y;
+    setIsCancelling(Math.hypot(dx, dy) > CANCEL_DISTANCE);
+  }, []);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.pointerId !== pointerIdRef.current) return;
+    pointerIdRef.current = null;
+    stopRecording(isCancelling);
+    setIsCancelling(false);
+  }, [isCancelling, stopRecording]);
+
+  const handlePointerCancel = useCallback((e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.pointerId !== pointerIdRef.current) return;
+    pointerIdRef.current = null;
+    stopRecording(true);
+  }, [stopRecording]);
+
+  // Holding the key works like holding the button; Escape stands in for
+  // sliding away, and losing focus counts as letting go
+  useEffect(() => {
+    if (!holdKey) return;
+
+    const release = (discard: boolean) => {
+      setIsKeyHold(false);
+      stopRecording(discard);
+      setIsCancelling(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isKeyHold) {
+        if (e.key === 'Escape') setIsCancelling(true);
+        return;
+      }
+      if (e.key.toLowerCase() !== holdKey || e.repeat || hasCommandModifier(e) || isTypingTarget(e.target)) return;
+      if (state !== 'idle') return;
+      e.preventDefault();
+      isHoldingRef.current = true;
+      setIsKeyHold(true);
+      setIsCancelling(false);
+      setReplyTarget(replyTo);
+      startRecording();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isKeyHold && e.key.toLowerCase() === holdKey) release(isCancelling);
+    };
+    const handleBlur = () => {
+      if (isKeyHold) release(isCancelling);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [holdKey, isKeyHold, isCancelling, state, replyTo, startRecording, stopRecording]);
+
+  // Release the microphone if we unmount mid-recording
+  useEffect(() => () => stopRecording(true), [stopRecording]);
+
+  const isRecording = state === 'recording';
+
+  let hint = 'Hold to record';
+  if (state === 'uploading') hint = 'Publishing…';
+  else if (isRecording && isKeyHold) hint = isCancelling ? 'Release to cancel' : 'Press Esc to cancel';
+  else if (isRecording) hint = isCancelling ? 'Release to cancel' : 'Slide away to cancel';
 
   return (
-    <button
-      className={`w-20 h-20 rounded-full flex items-center justify-center transition-all transform ${
-        isRecording 
-          ? 'bg-red-500 scale-110 shadow-lg shadow-red-500/50'
-          : 'bg-white shadow-lg hover:scale-105'
-      }`}
-      onMouseDown={startRecording}
-      onMouseUp={stopRecording}
-      onTouchStart={startRecording}
-      onTouchEnd={stopRecording}
+    <div
+      className="relative flex flex-col items-center gap-2"
+      // Keep presses on the recorder from reaching the feed's tap and swipe handlers
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
     >
-      <div 
-        className={`w-12 h-12 rounded-full transition-all ${
-          isRecording 
-            ? 'bg-red-600 scale-90'
-            : 'bg-red-500'
-        }`}
-      />
-    </button>
+      {recording && (state === 'reviewing' || state === 'uploading') && (
+        <RecordingReview
+          recording={recording}
+          isPublishing={state === 'uploading'}
+          errorMessage={errorMessage}
+          replyTo={replyTarget}
+          replyByDefault={replyByDefault}
+          onPublish={publish}
+          onReRecord={discardRecording}
+        />
+      )}
+      {noticeMessage && !errorMessage && (
+        <div
+          role="status"
+          className="absolute bottom-full mb-3 w-64 px-3 py-2 rounded-xl bg-white/10 backdrop-blur-lg text-white text-sm text-center"
+        >
+          {noticeMessage}
+        </div>
+      )}
+      {errorMessage && !recording && (
+        <div
+          role="alert"
+          className="absolute bottom-full mb-3 w-64 px-3 py-2 rounded-xl bg-red-500/90 text-white text-sm text-center"
+        >
+          {errorMessage}
+        </div>
+      )}
+      <div className="relative w-16 h-16">
+        <svg
+          className="absolute inset-0 -rotate-90 w-16 h-16 pointer-events-none"
+          viewBox="0 0 36 36"
+        >
+          <circle
+            cx="18"
+            cy="18"
+            r="16"
+            fill="none"
+            stroke="rgba(255, 255, 255, 0.2)"
+            strokeWidth="2"
+          />
+          {isRecording && (
+            <circle
+              cx="18"
+              cy="18"
+              r="16"
+              fill="none"
+              stroke={isCancelling ? 'rgb(239, 68, 68)' : 'white'}
+              strokeWidth="2"
+              strokeDasharray={`${progress * RING_LENGTH} ${RING_LENGTH}`}
+              strokeLinecap="round"
+            />
+          )}
+        </svg>
+        <button
+          className={`absolute inset-2 rounded-full flex items-center justify-center touch-none select-none transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-black ${
+            isRecording ? 'bg-white scale-95' : 'bg-white hover:scale-105'
+          } ${state === 'uploading' ? 'opacity-50 animate-pulse' : ''}`}
+          aria-label={holdKey ? `Hold to record (or hold ${holdKey.toUpperCase()})` : 'Hold to record'}
+          aria-keyshortcuts={holdKey?.toUpperCase()}
+          disabled={state === 'uploading'}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onContextMenu={(e) => e.preventDefault()}
+        >
+          <div
+            className={`transition-all ${
+              isRecording
+                ? `w-5 h-5 rounded-md ${isCancelling ? 'bg-red-500/40' : 'bg-red-500'}`
+                : 'w-8 h-8 rounded-full bg-black'
+            }`}
+          />
+        </button>
+      </div>
+      <div className="text-white/50 text-sm">{hint}</div>
+    </div>
   );
-} 
\ No newline at end of file
+}
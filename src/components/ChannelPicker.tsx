@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { TrendingTag, fetchTrendingTags, normalizeTag, tagPath } from '@/lib/tags';
+
+interface ChannelPickerProps {
+  // Tag of the channel playing now; null for the main feed
+  value: string | null;
+}
+
+const ALL_CHANNELS = '';
+const OTHER_CHANNEL = '__other';
+
+// Switches between the main feed and hashtag channels, trending ones listed.
+export default function ChannelPicker({ value }: ChannelPickerProps) {
+  const router = useRouter();
+  const [trending, setTrending] = useState<TrendingTag[]>([]);
+
+  useEffect(() => {
+    fetchTrendingTags()
+      .then(setTrending)
+      .catch(error => console.error('ChannelPicker: Failed to fetch trending tags', error));
+  }, []);
+
+  const handleChange = (selected: string) => {
+    if (selected === ALL_CHANNELS) {
+      router.push('/');
+      return;
+    }
+    if (selected !== OTHER_CHANNEL) {
+      router.push(tagPath(selected));
+      return;
+    }
+    const entered = window.prompt('Play which tag?', '#');
+    if (entered === null) return;
+    const tag = normalizeTag(entered);
+    if (tag) router.push(tagPath(tag));
+    else window.alert('Tags can only use letters, numbers and underscores.');
+  };
+
+  const tags = value && !trending.some(t => t.tag === value)
+    ? [{ tag: value, snippet_count: 0 }, ...trending]
+    : trending;
+
+  return (
+    <select
+      className="h-8 px-3 rounded-full bg-white/10 text-white/80 text-sm cursor-pointer hover:bg-white/20 transition-all appearance-none focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+      aria-label="Channel"
+      value={value ?? ALL_CHANNELS}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => handleChange(e.target.value)}
+    >
+      <option value={ALL_CHANNELS} className="text-black">All</option>
+      {tags.map(({ tag }) => (
+        <option key={tag} value={tag} className="text-black">#{tag}</option>
+      ))}
+      <option value={OTHER_CHANNEL} className="text-black">Other tag…</option>
+    </select>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { AudioSnippet, fetchSnippet } from '@/lib/snippets';
+import { ensureSession } from '@/lib/auth';
+import {
+  Profile,
+  fetchFollowedIds,
+  fetchFollowerCount,
+  fetchProfileByHandle,
+  setFollowing,
+} from '@/lib/profiles';
+import AudioFeed from './AudioFeed';
+
+interface CreatorFeedProps {
+  handle: string;
+}
+
+interface CreatorState {
+  profile: Profile;
+  intro: AudioSnippet | null;
+  followerCount: number;
+  isFollowing: boolean;
+  isSelf: boolean;
+}
+
+// A creator's snippets in the swipe player, their voice intro first.
+export default function CreatorFeed({ handle }: CreatorFeedProps) {
+  const [creator, setCreator] = useState<CreatorState | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'not-found' | 'error'>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const profile = await fetchProfileByHandle(handle);
+        if (!profile) {
+          if (!cancelled) setStatus('not-found');
+          return;
+        }
+
+        const [intro, followerCount, session] = await Promise.all([
+          profile.intro_snippet_id ? fetchSnippet(profile.intro_snippet_id) : null,
+          fetchFollowerCount(profile.id),
+          ensureSession(),
+        ]);
+        const followedIds = await fetchFollowedIds(session.user.id);
+
+        if (cancelled) return;
+        setCreator({
+          profile,
+          intro,
+          followerCount,
+          isFollowing: followedIds.includes(profile.id),
+          isSelf: session.user.id === profile.id,
+        });
+        setStatus('ready');
+      } catch (error) {
+        console.error('CreatorFeed: Failed to load profile', error);
+        if (!cancelled) setStatus('error');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [handle]);
+
+  const toggleFollow = useCallback(async () => {
+    if (!creator) return;
+    const previous = creator;
+    const following = !creator.isFollowing;
+
+    // Optimistic update, rolled back if the write fails
+    setCreator({
+      ...creator,
+      isFollowing: following,
+      followerCount: Math.max(creator.followerCount + (following ? 1 : -1), 0),
+    });
+    try {
+      await setFollowing(creator.profile.id, following);
+    } catch (error) {
+      console.error('CreatorFeed: Failed to update follow, rolling back', error);
+      setCreator(previous);
+    }
+  }, [creator]);
+
+  if (status !== 'ready' || !creator) {
+    return (
+      <div className="h-screen bg-black flex flex-col items-center justify-center gap-4 text-white/50 text-sm">
+        {status === 'loading' ? (
+          <div className="w-3 h-3 bg-white rounded-full animate-ping" />
+        ) : (
+          <>
+            <div>{status === 'not-found' ? `There's no one called @${handle}.` : 'Could not load this profile.'}</div>
+            <Link href="/" className="text-white hover:underline">Back to the feed</Link>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { profile } = creator;
+
+  return (
+    <AudioFeed
+      key={profile.id}
+      source={{ kind: 'creator', ownerId: profile.id }}
+      initialSnippet={creator.intro ?? undefined}
+      overlay={
+        <div
+          className="flex items-center gap-3 px-4 py-2 rounded-full bg-white/10 backdrop-blur-lg"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <span className="w-8 h-8 rounded-full" style={{ backgroundColor: profile.avatar_color }} />
+          <div className="flex flex-col">
+            <span className="text-white text-sm">@{profile.handle}</span>
+            <span className="text-white/50 text-xs">
+              {creator.followerCount} {creator.followerCount === 1 ? 'follower' : 'followers'}
+            </span>
+          </div>
+          {!creator.isSelf && (
+            <button
+              className={`h-8 px-3 rounded-full text-sm transition-all ${
+                creator.isFollowing ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-white text-black hover:scale-105'
+              }`}
+              aria-pressed={creator.isFollowing}
+              onClick={toggleFollow}
+            >
+              {creator.isFollowing ? 'Following' : 'Follow'}
+            </button>
+          )}
+        </div>
+      }
+    />
+  );
+}
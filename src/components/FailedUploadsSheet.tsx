@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { FailedUpload } from '@/lib/uploadQueue';
+
+interface FailedUploadsSheetProps {
+  uploads: FailedUpload[];
+  onRetry: (id: number) => Promise<void>;
+  onDiscard: (id: number) => Promise<void>;
+  onClose: () => void;
+}
+
+// Recordings queued offline that the server then turned down, with why. Each
+// can be tried again, saved to the device or thrown away.
+export default function FailedUploadsSheet({ uploads, onRetry, onDiscard, onClose }: FailedUploadsSheetProps) {
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [downloadUrls, setDownloadUrls] = useState<Map<number, string>>(new Map());
+
+  // Object URLs for the save links, revoked when the list changes
+  useEffect(() => {
+    const urls = new Map(uploads.map(upload => [upload.id, URL.createObjectURL(upload.recording)]));
+    setDownloadUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [uploads]);
+
+  // Nothing left to show once every take is dealt with
+  useEffect(() => {
+    if (!uploads.length) onClose();
+  }, [uploads.length, onClose]);
+
+  const handle = async (id: number, action: (id: number) => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action(id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-lg flex items-end justify-center p-4"
+      role="dialog"
+      aria-label="Recordings that couldn't be published"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <div
+        className="w-full max-w-sm flex flex-col gap-3 rounded-3xl bg-white/10 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="text-white text-sm text-center">
+          {uploads.length === 1 ? "A recording couldn't be published" : "Some recordings couldn't be published"}
+        </div>
+        {uploads.map(upload => (
+          <div key={upload.id} className="flex flex-col gap-2 rounded-2xl bg-white/5 p-3">
+            <div className="text-white/50 text-xs">
+              Recorded {new Date(upload.queuedAt).toLocaleString()}
+            </div>
+            <div className="text-white text-sm">{upload.failure.message}</div>
+            <div className="flex gap-2">
+              <button
+                className="h-8 px-3 rounded-full bg-white/10 text-white text-xs hover:bg-white/20 transition-all disabled:opacity-50"
+                onClick={() => handle(upload.id, onRetry)}
+                disabled={busyId !== null}
+              >
+                {busyId === upload.id ? 'Working…' : 'Try again'}
+              </button>
+              {downloadUrls.has(upload.id) && (
+                <a
+                  className="h-8 px-3 rounded-full bg-white/10 text-white text-xs flex items-center hover:bg-white/20 transition-all"
+                  href={downloadUrls.get(upload.id)}
+                  download={`wavelength-recording-${upload.id}.${upload.recording.type.split(/[/;]/)[1] || 'audio'}`}
+                >
+                  Save
+                </a>
+              )}
+              <button
+                className="h-8 px-3 rounded-full text-white/50 text-xs hover:text-white transition-all disabled:opacity-50"
+                onClick={() => handle(upload.id, onDiscard)}
+                disabled={busyId !== null}
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          className="h-10 px-4 rounded-full text-white/50 text-sm hover:text-white transition-all"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface KeyboardShortcutsProps {
+  onClose: () => void;
+}
+
+// Keep in step with the feed's keydown handler and AudioRecorder's holdKey
+const SHORTCUTS: [keys: string, action: string][] = [
+  ['Space', 'Play or pause'],
+  ['↑ ↓', 'Previous or next snippet'],
+  ['← →', 'Back or forward 5 seconds'],
+  ['L', 'Like or unlike'],
+  ['M', 'Mute or unmute'],
+  ['R', 'Hold to record, Esc to cancel'],
+  ['?', 'Show or hide shortcuts'],
+];
+
+// The feed's keyboard shortcuts, opened with "?".
+export default function KeyboardShortcuts({ onClose }: KeyboardShortcutsProps) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  // Focus moves into the dialog and back to where it was on close
+  useEffect(() => {
+    const previous = document.activeElement;
+    closeRef.current?.focus();
+    return () => {
+      if (previous instanceof HTMLElement) previous.focus();
+    };
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-lg flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="keyboard-shortcuts-title"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <div
+        className="w-full max-w-sm flex flex-col gap-3 rounded-3xl bg-white/10 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="keyboard-shortcuts-title" className="text-white text-sm text-center">Keyboard shortcuts</h2>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {SHORTCUTS.map(([keys, action]) => (
+            <div key={keys} className="contents">
+              <dt className="text-right">
+                <kbd className="px-2 py-0.5 rounded bg-white/10 text-white font-sans">{keys}</kbd>
+              </dt>
+              <dd className="text-white/70">{action}</dd>
+            </div>
+          ))}
+        </dl>
+        <button
+          ref={closeRef}
+          className="h-10 px-4 rounded-full text-white/50 text-sm hover:text-white transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
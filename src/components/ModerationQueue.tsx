@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { AudioSnippet } from '@/lib/snippets';
+import { ensureSession } from '@/lib/auth';
+import {
+  ModerationError,
+  ModerationQueueItem,
+  REPORT_REASONS,
+  ReportReason,
+  banUser,
+  fetchModerationQueue,
+  removeReportedSnippet,
+  restoreSnippet,
+} from '@/lib/moderation';
+import { useSnippetPlayback } from './useSnippetPlayback';
+import SnippetWaveform from './SnippetWaveform';
+
+type QueueStatus = 'loading' | 'ready' | 'forbidden' | 'error';
+type ModerationAction = 'restore' | 'delete' | 'ban';
+
+// Reported snippets for moderators to listen to and act on.
+export default function ModerationQueue() {
+  const { playingId, progress, togglePlay, stop } = useSnippetPlayback();
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [status, setStatus] = useState<QueueStatus>('loading');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setStatus('loading');
+    try {
+      await ensureSession();
+      setItems(await fetchModerationQueue());
+      setStatus('ready');
+    } catch (error) {
+      console.error('ModerationQueue: Failed to load queue', error);
+      const denied = error instanceof ModerationError && (error.code === 'forbidden' || error.code === 'unauthorized');
+      setStatus(denied ? 'forbidden' : 'error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handlePlay = useCallback((snippet: AudioSnippet) => {
+    if (!togglePlay(snippet)) setErrorMessage("This browser can't play that recording.");
+  }, [togglePlay]);
+
+  const runAction = useCallback(async (item: ModerationQueueItem, action: ModerationAction) => {
+    const { snippet } = item;
+    if (action === 'delete' && !window.confirm('Delete this snippet and its replies? This cannot be undone.')) return;
+    if (action === 'ban' && !window.confirm('Ban this uploader? Everything they have published will be hidden.')) return;
+
+    stop(snippet.id);
+    setBusyId(snippet.id);
+    setErrorMessage(null);
+    try {
+      if (action === 'restore') {
+        await restoreSnippet(snippet.id);
+        setItems(prev => prev.filter(i => i.snippet.id !== snippet.id));
+      } else if (action === 'delete') {
+        await removeReportedSnippet(snippet.id);
+        setItems(prev => prev.filter(i => i.snippet.id !== snippet.id));
+      } else if (snippet.owner_id) {
+        const ownerId = snippet.owner_id;
+        await banUser(ownerId);
+        setItems(prev => prev.map(i => (
+          i.snippet.owner_id === ownerId
+            ? { ...i, owner_banned: true, snippet: { ...i.snippet, hidden: true } }
+            : i
+        )));
+      }
+      console.log('ModerationQueue: Action complete', { action, id: snippet.id });
+    } catch (error) {
+      console.error('ModerationQueue: Action failed', { action, error });
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  }, [stop]);
+
+  return (
+    <div className="mx-auto max-w-lg px-4 py-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <Link href="/" className="text-white/50 text-sm hover:text-white transition-all">
+          ← Feed
+        </Link>
+        <h1 className="text-white text-sm">Moderation</h1>
+        <button
+          className="text-white/50 text-sm hover:text-white transition-all disabled:opacity-50"
+          onClick={loadQueue}
+          disabled={status === 'loading'}
+        >
+          Refresh
+        </button>
+      </div>
+
+      {errorMessage && (
+        <div role="alert" className="px-3 py-2 rounded-xl bg-red-500/90 text-white text-sm text-center">
+          {errorMessage}
+        </div>
+      )}
+
+      {status === 'forbidden' && (
+        <div className="py-12 text-center text-white/50 text-sm">
+          This page is only for moderators.
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="py-12 text-center text-white/50 text-sm">
+          Could not load the queue.
+        </div>
+      )}
+
+      {status === 'ready' && !items.length && (
+        <div className="py-12 text-center text-white/50 text-sm">
+          Nothing has been reported.
+        </div>
+      )}
+
+      {status === 'loading' && (
+        <div className="flex justify-center py-6">
+          <div className="w-3 h-3 bg-white rounded-full animate-ping" />
+        </div>
+      )}
+
+      {status === 'ready' && (
+        <ul className="flex flex-col gap-2">
+          {items.map(item => {
+            const { snippet } = item;
+            const isBusy = busyId === snippet.id;
+            return (
+              <li key={snippet.id} className="flex flex-col gap-3 rounded-2xl bg-white/5 px-3 py-3">
+                <div className="flex items-center gap-3">
+                  <button
+                    className="w-10 h-10 shrink-0 rounded-full bg-white text-black text-xs hover:scale-105 transition-all"
+                    aria-label={playingId === snippet.id ? 'Pause' : 'Play'}
+                    onClick={() => handlePlay(snippet)}
+                  >
+                    {playingId === snippet.id ? '❚❚' : '▶'}
+                  </button>
+                  <div className="flex-1 min-w-0 flex flex-col gap-1">
+                    {snippet.peaks ? (
+                      <SnippetWaveform
+                        peaks={snippet.peaks}
+                        bars={48}
+                        progress={playingId === snippet.id ? progress : 0}
+                        className="w-full h-8"
+                      />
+                    ) : (
+                      <div className="h-8 rounded bg-white/10" />
+                    )}
+                    <div className="flex flex-wrap gap-x-3 text-white/40 text-xs">
+                      <span>{snippet.owner ? `@${snippet.owner.handle}` : 'No owner'}</span>
+                      <span>{new Date(snippet.created_at).toLocaleString()}</span>
+                      {snippet.hidden && <span className="text-red-400">Hidden</span>}
+                      {item.owner_banned && <span className="text-red-400">Uploader banned</span>}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1 text-xs">
+                  <span className="px-2 py-0.5 rounded-full bg-red-500/80 text-white">
+                    {item.report_count} {item.report_count === 1 ? 'report' : 'reports'}
+                  </span>
+                  {(Object.entries(item.reasons) as [ReportReason, number][]).map(([reason, count]) => (
+                    <span key={reason} className="px-2 py-0.5 rounded-full bg-white/10 text-white/70">
+                      {REPORT_REASONS[reason]} × {count}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    className="h-8 px-3 rounded-full bg-white/10 text-white text-xs hover:bg-white/20 transition-all disabled:opacity-50"
+                    onClick={() => runAction(item, 'restore')}
+                    disabled={isBusy}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="h-8 px-3 rounded-full bg-white/10 text-white text-xs hover:bg-red-500/80 transition-all disabled:opacity-50"
+                    onClick={() => runAction(item, 'delete')}
+                    disabled={isBusy}
+                  >
+                    Delete
+                  </button>
+                  {snippet.owner_id && !item.owner_banned && (
+                    <button
+                      className="h-8 px-3 rounded-full bg-white/10 text-white text-xs hover:bg-red-500/80 transition-all disabled:opacity-50"
+                      onClick={() => runAction(item, 'ban')}
+                      disabled={isBusy}
+                    >
+                      Ban uploader
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { User } from '@supabase/supabase-js';
+import { AudioSnippet, SnippetCursor, deleteSnippet, fetchSnippetPage, formatTime } from '@/lib/snippets';
+import { ensureSession, subscribeToUser } from '@/lib/auth';
+import { Profile, fetchProfile, updateProfile } from '@/lib/profiles';
+import { threadPath } from '@/lib/share';
+import { SnippetStats, fetchMySnippetStats } from '@/lib/analytics';
+import { useSnippetPlayback } from './useSnippetPlayback';
+import AccountPanel from './AccountPanel';
+import ProfileEditor from './ProfileEditor';
+import SnippetWaveform from './SnippetWaveform';
+
+// One line of listening stats, e.g. "40 views · 12 listens · 58% to the end · 0:07 avg"
+function describeStats(stats: SnippetStats): string {
+  const listens = stats.completions + stats.skips;
+  const parts = [`${stats.impressions} ${stats.impressions === 1 ? 'view' : 'views'}`];
+  parts.push(`${listens} ${listens === 1 ? 'listen' : 'listens'}`);
+  if (listens) {
+    parts.push(`${Math.round((stats.completions / listens) * 100)}% to the end`);
+    parts.push(`${formatTime(stats.listened_ms / listens / 1000)} avg`);
+  }
+  return parts.join(' · ');
+}
+
+// The signed-in listener's own recordings, newest first, with delete.
+export default function MySnippets() {
+  const { playingId, progress, togglePlay, stop } = useSnippetPlayback();
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [stats, setStats] = useState<Map<string, SnippetStats>>(new Map());
+  const [snippets, setSnippets] = useState<AudioSnippet[]>([]);
+  const [nextCursor, setNextCursor] = useState<SnippetCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    ensureSession().catch(error => {
+      console.error('MySnippets: Could not start a session', error);
+      setErrorMessage('Could not sign in. Check your connection.');
+      setIsLoading(false);
+    });
+    return subscribeToUser(setUser);
+  }, []);
+
+  const userId = user?.id ?? null;
+
+  const loadPage = useCallback(async (cursor: SnippetCursor | null) => {
+    if (!userId) return;
+    setIsLoading(true);
+    try {
+      const page = await fetchSnippetPage(cursor, { ownerIds: [userId], includeReplies: true, includeHidden: true });
+      setSnippets(prev => (cursor ? [...prev, ...page.snippets] : page.snippets));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('MySnippets: Failed to fetch snippets', error);
+      setErrorMessage('Could not load your recordings.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setSnippets([]);
+    loadPage(null);
+  }, [loadPage]);
+
+  useEffect(() => {
+    setProfile(null);
+    if (!userId) return;
+    fetchProfile(userId)
+      .then(setProfile)
+      .catch(error => console.error('MySnippets: Failed to fetch profile', error));
+  }, [userId]);
+
+  useEffect(() => {
+    setStats(new Map());
+    if (!userId) return;
+    fetchMySnippetStats()
+      .then(setStats)
+      .catch(error => console.error('MySnippets: Failed to fetch stats', error));
+  }, [userId]);
+
+  const handlePlay = useCallback((snippet: AudioSnippet) => {
+    if (!togglePlay(snippet)) setErrorMessage("This browser can't play that recording.");
+  }, [togglePlay]);
+
+  const toggleIntro = useCallback(async (snippet: AudioSnippet) => {
+    if (!profile) return;
+    setErrorMessage(null);
+    try {
+      const introId = profile.intro_snippet_id === snippet.id ? null : snippet.id;
+      setProfile(await updateProfile({ intro_snippet_id: introId }));
+    } catch (error) {
+      console.error('MySnippets: Failed to update intro', error);
+      setErrorMessage('Could not update your intro.');
+    }
+  }, [profile]);
+
+  const handleDelete = useCallback(async (snippet: AudioSnippet) => {
+    if (!window.confirm('Delete this recording? This cannot be undone.')) return;
+
+    stop(snippet.id);
+    setDeletingId(snippet.id);
+    setErrorMessage(null);
+    try {
+      await deleteSnippet(snippet.id);
+      setSnippets(prev => prev.filter(s => s.id !== snippet.id));
+      // The intro reference is cleared by the foreign key
+      if (profile?.intro_snippet_id === snippet.id) setProfile({ ...profile, intro_snippet_id: null });
+    } catch (error) {
+      console.error('MySnippets: Delete failed', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Could not delete the recording.');
+    } finally {
+      setDeletingId(null);
+    }
+  }, [profile, stop]);
+
+  return (
+    <div className="mx-auto max-w-lg px-4 py-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <Link href="/" className="text-white/50 text-sm hover:text-white transition-all">
+          ← Feed
+        </Link>
+        <h1 className="text-white text-sm">My snippets</h1>
+        <div className="w-12" />
+      </div>
+
+      <AccountPanel user={user} />
+
+      {profile && <ProfileEditor profile={profile} onSaved={setProfile} />}
+
+      {errorMessage && (
+        <div role="alert" className="px-3 py-2 rounded-xl bg-red-500/90 text-white text-sm text-center">
+          {errorMessage}
+        </div>
+      )}
+
+      {!isLoading && !snippets.length && !errorMessage && (
+        <div className="py-12 text-center text-white/50 text-sm">
+          Nothing here yet. Hold the record button in the feed to make your first snippet.
+        </div>
+      )}
+
+      <ul className="flex flex-col gap-2">
+        {snippets.map(snippet => (
+          <li key={snippet.id} className="flex items-center gap-3 rounded-2xl bg-white/5 px-3 py-3">
+            <button
+              className="w-10 h-10 shrink-0 rounded-full bg-white text-black text-xs hover:scale-105 transition-all"
+              aria-label={playingId === snippet.id ? 'Pause' : 'Play'}
+              onClick={() => handlePlay(snippet)}
+            >
+              {playingId === snippet.id ? '❚❚' : '▶'}
+            </button>
+            <div className="flex-1 min-w-0 flex flex-col gap-1">
+              {snippet.peaks ? (
+                <SnippetWaveform
+                  peaks={snippet.peaks}
+                  bars={48}
+                  progress={playingId === snippet.id ? progress : 0}
+                  className="w-full h-8"
+                />
+              ) : (
+                <div className="h-8 rounded bg-white/10" />
+              )}
+              <div className="flex gap-3 text-white/40 text-xs">
+                <span>{new Date(snippet.created_at).toLocaleString()}</span>
+                <span>♥ {snippet.like_count}</span>
+                {snippet.hidden && <span className="text-red-400">Hidden after reports</span>}
+                {snippet.parent_id ? (
+                  <Link href={threadPath(snippet.parent_id)} className="hover:text-white transition-all">
+                    Reply
+                  </Link>
+                ) : (
+                  snippet.reply_count > 0 && <span>{snippet.reply_count} {snippet.reply_count === 1 ? 'reply' : 'replies'}</span>
+                )}
+              </div>
+              {stats.has(snippet.id) && (
+                <div className="text-white/40 text-xs">{describeStats(stats.get(snippet.id)!)}</div>
+              )}
+            </div>
+            {profile && (
+              <button
+                className={`h-8 px-3 shrink-0 rounded-full text-xs transition-all ${
+                  profile.intro_snippet_id === snippet.id
+                    ? 'bg-white text-black'
+                    : 'bg-white/10 text-white/80 hover:bg-white/20'
+                }`}
+                aria-pressed={profile.intro_snippet_id === snippet.id}
+                title="Play this first on your profile"
+                onClick={() => toggleIntro(snippet)}
+              >
+                {profile.intro_snippet_id === snippet.id ? 'Intro' : 'Set as intro'}
+              </button>
+            )}
+            <button
+              className="h-8 px-3 shrink-0 rounded-full bg-white/10 text-white/80 text-xs hover:bg-red-500/80 hover:text-white transition-all disabled:opacity-50"
+              onClick={() => handleDelete(snippet)}
+              disabled={deletingId === snippet.id}
+            >
+              {deletingId === snippet.id ? 'Deleting…' : 'Delete'}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {isLoading && (
+        <div className="flex justify-center py-6">
+          <div className="w-3 h-3 bg-white rounded-full animate-ping" />
+        </div>
+      )}
+
+      {!isLoading && nextCursor && (
+        <button
+          className="self-center h-10 px-4 rounded-full bg-white/10 text-white text-sm hover:bg-white/20 transition-all"
+          onClick={() => loadPage(nextCursor)}
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
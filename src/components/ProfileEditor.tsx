@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AVATAR_COLORS, HANDLE_PATTERN, HandleTakenError, Profile, updateProfile } from '@/lib/profiles';
+
+interface ProfileEditorProps {
+  profile: Profile;
+  onSaved: (profile: Profile) => void;
+}
+
+// Handle and avatar color for the signed-in listener's public profile.
+export default function ProfileEditor({ profile, onSaved }: ProfileEditorProps) {
+  const [handle, setHandle] = useState(profile.handle);
+  const [color, setColor] = useState(profile.avatar_color);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHandle(profile.handle);
+    setColor(profile.avatar_color);
+  }, [profile]);
+
+  const normalizedHandle = handle.trim().toLowerCase();
+  const isValid = HANDLE_PATTERN.test(normalizedHandle);
+  const isDirty = normalizedHandle !== profile.handle || color !== profile.avatar_color;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      onSaved(await updateProfile({ handle: normalizedHandle, avatar_color: color }));
+    } catch (error) {
+      console.error('ProfileEditor: Save failed', error);
+      setErrorMessage(error instanceof HandleTakenError ? error.message : 'Could not save your profile.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="flex flex-col gap-3 rounded-2xl bg-white/10 px-4 py-3" onSubmit={handleSubmit}>
+      <div className="flex items-center justify-between">
+        <div className="text-white/70 text-sm">Your profile</div>
+        <Link href={`/u/${profile.handle}`} className="text-white/50 text-xs hover:text-white transition-all">
+          View profile →
+        </Link>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="w-10 h-10 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+        <div className="flex-1 min-w-0 flex items-center h-10 px-4 rounded-full bg-black/40 focus-within:ring-2 focus-within:ring-white">
+          <span className="text-white/40 text-sm">@</span>
+          <input
+            value={handle}
+            onChange={(e) => setHandle(e.target.value)}
+            aria-label="Handle"
+            aria-invalid={!isValid}
+            maxLength={20}
+            className="flex-1 min-w-0 bg-transparent text-white text-sm focus:outline-none"
+          />
+        </div>
+      </div>
+      {!isValid && (
+        <div className="text-white/50 text-xs">3–20 characters: lowercase letters, numbers and underscores.</div>
+      )}
+      <div className="flex gap-2" role="radiogroup" aria-label="Avatar color">
+        {AVATAR_COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={color === option}
+            aria-label={option}
+            className={`w-7 h-7 rounded-full transition-all ${color === option ? 'ring-2 ring-white scale-110' : ''}`}
+            style={{ backgroundColor: option }}
+            onClick={() => setColor(option)}
+          />
+        ))}
+      </div>
+      {errorMessage && <div role="alert" className="text-red-400 text-sm">{errorMessage}</div>}
+      <button
+        type="submit"
+        className="self-end h-8 px-4 rounded-full bg-white text-black text-sm hover:scale-105 transition-all disabled:opacity-50"
+        disabled={!isValid || !isDirty || isSaving}
+      >
+        {isSaving ? 'Saving…' : 'Save'}
+      </button>
+    </form>
+  );
+}
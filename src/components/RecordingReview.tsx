@@ -0,0 +1,398 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { decodeRecording, trimRecording } from '@/lib/audioEdit';
+import { WaveformPeaks, buildWaveformPeaks, computePeaks } from '@/lib/peaks';
+import { MIN_SNIPPET_SECONDS, SnippetUploadOptions } from '@/lib/snippetUpload';
+import type { AudioSnippet } from '@/lib/snippets';
+import { VISUALIZER_STYLES, VisualizerStyle } from '@/lib/visualizers';
+import { MAX_TAGS, parseTagInput } from '@/lib/tags';
+import { cuesFromTranscript, serializeWebVTT } from '@/lib/webvtt';
+
+interface RecordingReviewProps {
+  recording: Blob;
+  isPublishing: boolean;
+  errorMessage?: string | null;
+  // Snippet that was showing when recording started; the take can be
+  // published as a reply to it
+  replyTo?: AudioSnippet | null;
+  replyByDefault?: boolean;
+  // Peaks are null when the browser couldn't decode the take; the style is
+  // null unless the uploader suggested one
+  onPublish: (recording: Blob, options: SnippetUploadOptions) => void;
+  onReRecord: () => void;
+}
+
+type TrimHandle = 'start' | 'end';
+
+const PEAK_COUNT = 80;
+const STYLE_OPTIONS = Object.entries(VISUALIZER_STYLES) as [VisualizerStyle, { label: string }][];
+// Nudge applied to a focused trim handle per arrow key press, in seconds
+const KEYBOARD_STEP = 0.1;
+
+export default function RecordingReview({
+  recording,
+  isPublishing,
+  errorMessage,
+  replyTo,
+  replyByDefault = false,
+  onPublish,
+  onReRecord,
+}: RecordingReviewProps) {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [decodeFailed, setDecodeFailed] = useState(false);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
+  const [visualStyle, setVisualStyle] = useState<VisualizerStyle | null>(null);
+  const [isReply, setIsReply] = useState(replyByDefault && !!replyTo);
+  const [tagInput, setTagInput] = useState('');
+  const [transcript, setTranscript] = useState('');
+
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<TrimHandle | null>(null);
+  const audioContextRef = useRef<AudioContext>();
+  const sourceRef = useRef<AudioBufferSourceNode>();
+  const animationRef = useRef<number>();
+
+  const duration = buffer?.duration ?? 0;
+  // Replies stay in their thread, so they aren't tagged
+  const { tags, invalid: invalidTags } = useMemo(() => parseTagInput(isReply ? '' : tagInput), [isReply, tagInput]);
+  const tagError = invalidTags.length
+    ? `Tags can only use letters, numbers and underscores: ${invalidTags.join(' ')}`
+    : tags.length > MAX_TAGS ? `Add at most ${MAX_TAGS} tags.` : null;
+
+  // Decode once so we can draw the waveform, preview and trim
+  useEffect(() => {
+    let cancelled = false;
+
+    decodeRecording(recording)
+      .then(decoded => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setPeaks(computePeaks(decoded, PEAK_COUNT));
+        setTrimStart(0);
+        setTrimEnd(decoded.duration);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // Some browsers can't decode what their own MediaRecorder produced;
+        // fall back to a plain player and publish the take as recorded
+        console.error('RecordingReview: Failed to decode recording', error);
+        setDecodeFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  useEffect(() => {
+    if (!decodeFailed) return;
+    const url = URL.createObjectURL(recording);
+    setFallbackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [decodeFailed, recording]);
+
+  const stopPreview = useCallback(() => {
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current.disconnect();
+      sourceRef.current = undefined;
+    }
+    setIsPlaying(false);
+    setPlayhead(null);
+  }, []);
+
+  const startPreview = useCallback(async () => {
+    if (!buffer) return;
+    stopPreview();
+
+    if (!audioContextRef.current) {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      audioContextRef.current = new AudioContext();
+    }
+    const context = audioContextRef.current;
+    if (context.state === 'suspended') await context.resume();
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = stopPreview;
+    source.start(0, trimStart, trimEnd - trimStart);
+    sourceRef.current = source;
+
+    const startedAt = context.currentTime;
+    const track = () => {
+      setPlayhead(trimStart + (context.currentTime - startedAt));
+      animationRef.current = requestAnimationFrame(track);
+    };
+    track();
+    setIsPlaying(true);
+  }, [buffer, trimStart, trimEnd, stopPreview]);
+
+  useEffect(() => () => {
+    stopPreview();
+    audioContextRef.current?.close().catch(console.error);
+  }, [stopPreview]);
+
+  // Trimming
+  const moveHandle = useCallback((handle: TrimHandle, time: number) => {
+    if (handle === 'start') {
+      setTrimStart(Math.max(0, Math.min(time, trimEnd - MIN_SNIPPET_SECONDS)));
+    } else {
+      setTrimEnd(Math.min(duration, Math.max(time, trimStart + MIN_SNIPPET_SECONDS)));
+    }
+  }, [duration, trimStart, trimEnd]);
+
+  const timeAtPointer = useCallback((clientX: number) => {
+    const rect = waveformRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width) return 0;
+    return ((clientX - rect.left) / rect.width) * duration;
+  }, [duration]);
+
+  const handlePointerDown = (handle: TrimHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingRef.current = handle;
+    stopPreview();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draggingRef.current) return;
+    moveHandle(draggingRef.current, timeAtPointer(e.clientX));
+  };
+
+  const handlePointerUp = () => {
+    draggingRef.current = null;
+  };
+
+  const handleKeyDown = (handle: TrimHandle) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = handle === 'start' ? trimStart : trimEnd;
+    if (e.key === 'ArrowLeft') moveHandle(handle, current - KEYBOARD_STEP);
+    else if (e.key === 'ArrowRight') moveHandle(handle, current + KEYBOARD_STEP);
+    else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handlePublish = useCallback(async () => {
+    stopPreview();
+    const parentId = isReply && replyTo ? replyTo.id : null;
+    // The transcript is timed across whatever length is published
+    const publish = (clip: Blob, peaks: WaveformPeaks | null) => {
+      const cues = peaks ? cuesFromTranscript(transcript, peaks.duration) : [];
+      const captions = cues.length ? serializeWebVTT(cues) : null;
+      onPublish(clip, { peaks, visualStyle, parentId, tags, captions });
+    };
+
+    if (!buffer) {
+      publish(recording, null);
+      return;
+    }
+
+    const isTrimmed = trimStart > 0.01 || trimEnd < duration - 0.01;
+    if (!isTrimmed) {
+      publish(recording, buildWaveformPeaks(buffer));
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      publish(
+        await trimRecording(buffer, trimStart, trimEnd),
+        buildWaveformPeaks(buffer, trimStart, trimEnd)
+      );
+    } catch (error) {
+      console.error('RecordingReview: Failed to trim recording', error);
+      publish(recording, buildWaveformPeaks(buffer));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [
+    buffer, duration, trimStart, trimEnd, recording, visualStyle, isReply, replyTo, tags, transcript, onPublish, stopPreview,
+  ]);
+
+  const percent = (time: number) => (duration ? (time / duration) * 100 : 0);
+  const isBusy = isPublishing || isProcessing;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/90 backdrop-blur-lg flex flex-col items-center justify-center gap-6 p-6"
+      role="dialog"
+      aria-label="Review recording"
+    >
+      <div className="text-white text-sm">Review your recording</div>
+
+      {decodeFailed ? (
+        fallbackUrl && <audio src={fallbackUrl} controls className="w-full max-w-sm" />
+      ) : (
+        <div
+          ref={waveformRef}
+          className="relative w-full max-w-sm h-24 touch-none select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div className="absolute inset-0 flex items-center gap-px">
+            {peaks.map((peak, i) => {
+              const time = ((i + 0.5) / PEAK_COUNT) * duration;
+              const inSelection = time >= trimStart && time <= trimEnd;
+              return (
+                <div
+                  key={i}
+                  className={`flex-1 rounded-full ${inSelection ? 'bg-white' : 'bg-white/20'}`}
+                  style={{ height: `${Math.max(peak * 100, 4)}%` }}
+                />
+              );
+            })}
+          </div>
+
+          {playhead !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-red-500"
+              style={{ left: `${percent(playhead)}%` }}
+            />
+          )}
+
+          {buffer && (['start', 'end'] as TrimHandle[]).map(handle => {
+            const time = handle === 'start' ? trimStart : trimEnd;
+            return (
+              <div
+                key={handle}
+                role="slider"
+                tabIndex={0}
+                aria-label={handle === 'start' ? 'Trim start' : 'Trim end'}
+                aria-valuemin={0}
+                aria-valuemax={Number(duration.toFixed(1))}
+                aria-valuenow={Number(time.toFixed(1))}
+                className="absolute top-0 bottom-0 w-4 -ml-2 flex justify-center cursor-ew-resize focus:outline-none focus-visible:ring-2 focus-visible:ring-white rounded"
+                style={{ left: `${percent(time)}%` }}
+                onPointerDown={handlePointerDown(handle)}
+                onKeyDown={handleKeyDown(handle)}
+              >
+                <div className="w-1 h-full rounded-full bg-red-500" />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {buffer && (
+        <div className="text-white/50 text-xs tabular-nums">
+          {(trimEnd - trimStart).toFixed(1)}s of {duration.toFixed(1)}s
+        </div>
+      )}
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="text-white/50 text-xs" id="visual-style-label">Suggested visual</div>
+        <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-labelledby="visual-style-label">
+          {([null, ...STYLE_OPTIONS.map(([style]) => style)] as (VisualizerStyle | null)[]).map(style => (
+            <button
+              key={style ?? 'none'}
+              role="radio"
+              aria-checked={visualStyle === style}
+              className={`h-8 px-3 rounded-full text-xs transition-all disabled:opacity-50 ${
+                visualStyle === style ? 'bg-white text-black' : 'bg-white/10 text-white hover:bg-white/20'
+              }`}
+              onClick={() => setVisualStyle(style)}
+              disabled={isBusy}
+            >
+              {style ? VISUALIZER_STYLES[style].label : 'None'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!isReply && (
+        <div className="w-full max-w-sm flex flex-col items-center gap-2">
+          <label className="text-white/50 text-xs" htmlFor="snippet-tags">Tags</label>
+          <input
+            id="snippet-tags"
+            className="w-full h-9 px-4 rounded-full bg-white/10 text-white text-sm text-center placeholder:text-white/30 focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+            placeholder="#music #morning"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            aria-invalid={!!tagError}
+            aria-describedby={tagError ? 'snippet-tags-error' : undefined}
+            autoCapitalize="none"
+            autoComplete="off"
+            disabled={isBusy}
+          />
+          {tagError && <div id="snippet-tags-error" className="text-red-400 text-xs text-center">{tagError}</div>}
+        </div>
+      )}
+
+      {buffer && (
+        <div className="w-full max-w-sm flex flex-col items-center gap-2">
+          <label className="text-white/50 text-xs" htmlFor="snippet-transcript">Captions</label>
+          <textarea
+            id="snippet-transcript"
+            className="w-full h-20 px-4 py-2 rounded-2xl bg-white/10 text-white text-sm placeholder:text-white/30 resize-none focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+            placeholder="What's said in the clip, for listeners who can't hear it"
+            value={transcript}
+            onChange={(e) => setTranscript(e.target.value)}
+            disabled={isBusy}
+          />
+        </div>
+      )}
+
+      {replyTo && (
+        <div className="flex gap-1 p-1 rounded-full bg-white/10" role="radiogroup" aria-label="Post as">
+          {[false, true].map(reply => (
+            <button
+              key={String(reply)}
+              role="radio"
+              aria-checked={isReply === reply}
+              className={`h-8 px-3 rounded-full text-xs transition-all disabled:opacity-50 ${
+                isReply === reply ? 'bg-white text-black' : 'text-white/70 hover:text-white'
+              }`}
+              onClick={() => setIsReply(reply)}
+              disabled={isBusy}
+            >
+              {reply ? `Reply to ${replyTo.owner ? `@${replyTo.owner.handle}` : 'this snippet'}` : 'New snippet'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {errorMessage && (
+        <div role="alert" className="w-full max-w-sm px-3 py-2 rounded-xl bg-red-500/90 text-white text-sm text-center">
+          {errorMessage}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          className="h-10 px-4 rounded-full bg-white/10 text-white text-sm hover:bg-white/20 transition-all disabled:opacity-50"
+          onClick={onReRecord}
+          disabled={isBusy}
+        >
+          Re-record
+        </button>
+        {buffer && (
+          <button
+            className="h-10 px-4 rounded-full bg-white/10 text-white text-sm hover:bg-white/20 transition-all disabled:opacity-50"
+            onClick={isPlaying ? stopPreview : startPreview}
+            disabled={isBusy}
+          >
+            {isPlaying ? 'Stop' : 'Play'}
+          </button>
+        )}
+        <button
+          className="h-10 px-4 rounded-full bg-white text-black text-sm hover:scale-105 transition-all disabled:opacity-50"
+          onClick={handlePublish}
+          disabled={isBusy || !!tagError || (!buffer && !decodeFailed)}
+        >
+          {isBusy ? 'Publishing…' : 'Publish'}
+        </button>
+      </div>
+    </div>
+  );
+}
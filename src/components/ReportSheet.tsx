@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { REPORT_REASONS, ReportReason } from '@/lib/moderation';
+
+interface ReportSheetProps {
+  onSubmit: (reason: ReportReason) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_OPTIONS = Object.entries(REPORT_REASONS) as [ReportReason, string][];
+
+// Asks why a snippet is being reported.
+export default function ReportSheet({ onSubmit, onClose }: ReportSheetProps) {
+  const [submittingReason, setSubmittingReason] = useState<ReportReason | null>(null);
+
+  const handleSelect = async (reason: ReportReason) => {
+    setSubmittingReason(reason);
+    try {
+      await onSubmit(reason);
+    } finally {
+      setSubmittingReason(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-lg flex items-end justify-center p-4"
+      role="dialog"
+      aria-label="Report snippet"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <div
+        className="w-full max-w-sm flex flex-col gap-2 rounded-3xl bg-white/10 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="text-white text-sm text-center mb-2">Why are you reporting this snippet?</div>
+        {REASON_OPTIONS.map(([reason, label]) => (
+          <button
+            key={reason}
+            className="h-10 px-4 rounded-full bg-white/10 text-white text-sm text-left hover:bg-white/20 transition-all disabled:opacity-50"
+            onClick={() => handleSelect(reason)}
+            disabled={submittingReason !== null}
+          >
+            {submittingReason === reason ? 'Reporting…' : label}
+          </button>
+        ))}
+        <button
+          className="h-10 px-4 rounded-full text-white/50 text-sm hover:text-white transition-all"
+          onClick={onClose}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
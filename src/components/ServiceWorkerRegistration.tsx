@@ -0,0 +1,12 @@
+'use client';
+
+import { useEffect } from 'react';
+import { registerServiceWorker } from '@/lib/offline';
+
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return null;
+}
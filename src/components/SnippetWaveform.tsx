@@ -0,0 +1,49 @@
+'use client';
+
+import { useMemo } from 'react';
+import { WaveformPeaks, readPeaks } from '@/lib/peaks';
+
+interface SnippetWaveformProps {
+  peaks: WaveformPeaks;
+  // Number of bars to draw; picks the nearest stored resolution at or above it
+  bars?: number;
+  // Fraction of the clip already played, 0-1
+  progress?: number;
+  className?: string;
+}
+
+export default function SnippetWaveform({ peaks, bars = 64, progress = 0, className = '' }: SnippetWaveformProps) {
+  const values = useMemo(() => {
+    const stored = readPeaks(peaks, bars);
+    if (stored.length <= bars) return stored;
+    // Fold the stored level down to the requested number of bars
+    const step = stored.length / bars;
+    return Array.from({ length: bars }, (_, i) =>
+      Math.max(...stored.slice(Math.floor(i * step), Math.floor((i + 1) * step)))
+    );
+  }, [peaks, bars]);
+
+  return (
+    <svg
+      className={className}
+      viewBox={`0 0 ${values.length} 100`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {values.map((value, i) => {
+        const height = Math.max(value * 100, 4);
+        return (
+          <rect
+            key={i}
+            x={i + 0.15}
+            y={(100 - height) / 2}
+            width={0.7}
+            height={height}
+            rx={0.35}
+            fill={(i + 0.5) / values.length <= progress ? 'white' : 'rgba(255, 255, 255, 0.3)'}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { TrendingTag, fetchTrendingTags, tagPath } from '@/lib/tags';
+
+interface TrendingTagsProps {
+  // Highlighted as the channel playing now
+  current?: string;
+}
+
+// Tags on the most snippets published this week, as links to their channels.
+export default function TrendingTags({ current }: TrendingTagsProps) {
+  const [trending, setTrending] = useState<TrendingTag[]>([]);
+
+  useEffect(() => {
+    fetchTrendingTags()
+      .then(setTrending)
+      .catch(error => console.error('TrendingTags: Failed to fetch trending tags', error));
+  }, []);
+
+  if (!trending.length) return null;
+
+  return (
+    <nav className="flex flex-wrap justify-center gap-1" aria-label="Trending tags">
+      {trending.map(({ tag, snippet_count }) => (
+        <Link
+          key={tag}
+          href={tagPath(tag)}
+          aria-current={tag === current ? 'page' : undefined}
+          className={`px-2 py-0.5 rounded-full text-xs transition-all ${
+            tag === current ? 'bg-white text-black' : 'bg-white/10 text-white/70 hover:bg-white/20'
+          }`}
+        >
+          #{tag} <span className="opacity-60">{snippet_count}</span>
+        </Link>
+      ))}
+    </nav>
+  );
+}
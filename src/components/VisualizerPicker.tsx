@@ -0,0 +1,28 @@
+'use client';
+
+import { VISUALIZER_STYLES, VisualizerStyle, isVisualizerStyle } from '@/lib/visualizers';
+
+interface VisualizerPickerProps {
+  // Null follows each snippet's suggested style
+  value: VisualizerStyle | null;
+  onChange: (style: VisualizerStyle | null) => void;
+}
+
+const STYLE_OPTIONS = Object.entries(VISUALIZER_STYLES) as [VisualizerStyle, { label: string }][];
+
+export default function VisualizerPicker({ value, onChange }: VisualizerPickerProps) {
+  return (
+    <select
+      className="h-8 px-3 rounded-full bg-white/10 text-white/80 text-sm cursor-pointer hover:bg-white/20 transition-all appearance-none focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+      aria-label="Visualizer style"
+      value={value ?? ''}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => onChange(isVisualizerStyle(e.target.value) ? e.target.value : null)}
+    >
+      <option value="" className="text-black">Auto</option>
+      {STYLE_OPTIONS.map(([style, { label }]) => (
+        <option key={style} value={style} className="text-black">{label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AudioSnippet } from '@/lib/snippets';
+import { resolvePlayableSnippet } from '@/lib/audioFormats';
+import { useAudioEngine } from './AudioEngineProvider';
+
+export interface SnippetPlayback {
+  playingId: string | null;
+  // 0–1 through the playing snippet
+  progress: number;
+  // Plays the snippet, or pauses it if it's the one playing. Returns false
+  // when this browser can't play any of its sources.
+  togglePlay: (snippet: AudioSnippet) => boolean;
+  // Stops playback; given an id, only if that snippet is the one playing
+  stop: (snippetId?: string) => void;
+}
+
+// One-at-a-time playback through the shared engine for lists of snippets
+// outside the feed. Playback stops when the list unmounts.
+export function useSnippetPlayback(): SnippetPlayback {
+  const engine = useAudioEngine();
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    const unsubscribes = [
+      engine.on('timeupdate', () => {
+        setProgress(engine.duration > 0 && Number.isFinite(engine.duration) ? engine.currentTime / engine.duration : 0);
+      }),
+      engine.on('ended', () => setPlayingId(null)),
+    ];
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      engine.pause();
+    };
+  }, [engine]);
+
+  const stop = useCallback((snippetId?: string) => {
+    if (snippetId !== undefined && snippetId !== playingId) return;
+    engine.pause();
+    setPlayingId(null);
+  }, [engine, playingId]);
+
+  const togglePlay = useCallback((snippet: AudioSnippet) => {
+    if (playingId === snippet.id) {
+      stop();
+      return true;
+    }
+    const playable = resolvePlayableSnippet(snippet);
+    if (!playable) return false;
+    engine.load(playable.url);
+    engine.play();
+    setProgress(0);
+    setPlayingId(snippet.id);
+    return true;
+  }, [engine, playingId, stop]);
+
+  return { playingId, progress, togglePlay, stop };
+}
@@ -0,0 +1,216 @@
+import { supabase } from '@/lib/supabase';
+import { ensureSession } from '@/lib/auth';
+import { isUuid } from '@/lib/ids';
+
+// Playback analytics. The feed reports what listeners do with each snippet;
+// events are queued, sent in batches to /api/events and stored in
+// playback_events (supabase/migrations/20261019135000_playback_events.sql).
+
+export type AnalyticsEvent =
+  // The snippet became the one on screen
+  | { type: 'impression'; snippet_id: string; at: string }
+  | { type: 'play'; snippet_id: string; at: string; position_ms: number }
+  | { type: 'pause'; snippet_id: string; at: string; position_ms: number }
+  | { type: 'seek'; snippet_id: string; at: string; position_ms: number; seek_to_ms: number }
+  // Moved on before the end; listened_ms excludes time spent paused
+  | { type: 'skip'; snippet_id: string; at: string; listened_ms: number }
+  | { type: 'complete'; snippet_id: string; at: string; listened_ms: number }
+  | { type: 'like'; snippet_id: string; at: string; liked: boolean };
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+// What callers pass to trackEvent; the timestamp is added when it's queued
+export type AnalyticsEventInput = WithoutTimestamp<AnalyticsEvent>;
+
+// Distributes over the union so each event type keeps its own fields
+type WithoutTimestamp<E> = E extends AnalyticsEvent ? Omit<E, 'at'> : never;
+
+export interface AnalyticsBatch {
+  session_id: string;
+  events: AnalyticsEvent[];
+  // Only set on beacons, which can't send an Authorization header
+  token?: string;
+}
+
+export interface AnalyticsEventsResponse {
+  // Events stored; malformed ones and those for deleted snippets are dropped
+  accepted: number;
+}
+
+export type AnalyticsErrorCode = 'unauthorized' | 'invalid_batch' | 'too_many_events' | 'rate_limited' | 'server_error';
+
+export interface AnalyticsErrorBody {
+  error: {
+    code: AnalyticsErrorCode;
+    message: string;
+  };
+}
+
+export const MAX_EVENTS_PER_BATCH = 100;
+
+// Send once this many events are waiting...
+const FLUSH_SIZE = 20;
+// ...or after this long, whichever comes first
+const FLUSH_INTERVAL_MS = 10000;
+
+const EVENT_TYPES: readonly AnalyticsEventType[] = ['impression', 'play', 'pause', 'seek', 'skip', 'complete', 'like'];
+
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let sessionId: string | null = null;
+// Kept current so a beacon sent while the page unloads doesn't have to wait
+// for the session
+let accessToken: string | null = null;
+let started = false;
+
+// Queues an event for the next batch.
+export function trackEvent(input: AnalyticsEventInput) {
+  if (typeof window === 'undefined') return;
+  start();
+
+  queue.push({ ...input, at: new Date().toISOString() } as AnalyticsEvent);
+  if (queue.length >= FLUSH_SIZE) {
+    flushEvents();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushEvents, FLUSH_INTERVAL_MS);
+  }
+}
+
+// Sends everything queued so far. Events from a failed request are dropped
+// rather than retried; analytics can afford to lose the odd batch.
+export async function flushEvents() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  const events = takeBatch();
+  if (!events.length) return;
+
+  try {
+    const { access_token } = await ensureSession();
+    const response = await fetch('/api/events', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${access_token}`,
+      },
+      body: JSON.stringify({ session_id: getSessionId(), events } satisfies AnalyticsBatch),
+      keepalive: true,
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as AnalyticsErrorBody | null;
+      throw new Error(body?.error.message ?? `Request failed with ${response.status}`);
+    }
+    console.log('Analytics: Sent events', { count: events.length });
+  } catch (error) {
+    console.error('Analytics: Failed to send events', error);
+  }
+
+  if (queue.length) flushEvents();
+}
+
+// The page may be going away: hand whatever is queued to the browser, which
+// delivers it even after the page has unloaded.
+function flushWithBeacon() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  while (queue.length) {
+    const batch: AnalyticsBatch = { session_id: getSessionId(), events: takeBatch() };
+    if (accessToken) batch.token = accessToken;
+    const body = new Blob([JSON.stringify(batch)], { type: 'application/json' });
+    if (!navigator.sendBeacon('/api/events', body)) {
+      console.error('Analytics: Browser refused beacon', { count: batch.events.length });
+    }
+  }
+}
+
+function takeBatch(): AnalyticsEvent[] {
+  const batch = queue.slice(0, MAX_EVENTS_PER_BATCH);
+  queue = queue.slice(batch.length);
+  return batch;
+}
+
+function start() {
+  if (started) return;
+  started = true;
+
+  supabase.auth.getSession().then(({ data }) => {
+    accessToken = data.session?.access_token ?? null;
+  });
+  supabase.auth.onAuthStateChange((_event, session) => {
+    accessToken = session?.access_token ?? null;
+  });
+
+  // pagehide covers navigation and bfcache; visibilitychange covers mobile
+  // browsers that are backgrounded and then killed without unloading
+  window.addEventListener('pagehide', flushWithBeacon);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushWithBeacon();
+  });
+}
+
+function getSessionId(): string {
+  if (!sessionId) sessionId = crypto.randomUUID();
+  return sessionId;
+}
+
+// Validates one event from an ingestion request. Returns null for anything
+// that isn't a well-formed event.
+export function parseAnalyticsEvent(value: unknown): AnalyticsEvent | null {
+  if (!value || typeof value !== 'object') return null;
+  const event = value as Record<string, unknown>;
+
+  if (!EVENT_TYPES.includes(event.type as AnalyticsEventType)) return null;
+  if (typeof event.snippet_id !== 'string' || !isUuid(event.snippet_id)) return null;
+  if (typeof event.at !== 'string' || Number.isNaN(Date.parse(event.at))) return null;
+
+  const base = { snippet_id: event.snippet_id, at: new Date(event.at).toISOString() };
+  switch (event.type as AnalyticsEventType) {
+    case 'impression':
+      return { type: 'impression', ...base };
+    case 'play':
+    case 'pause':
+      if (!isDuration(event.position_ms)) return null;
+      return { type: event.type as 'play' | 'pause', ...base, position_ms: event.position_ms };
+    case 'seek':
+      if (!isDuration(event.position_ms) || !isDuration(event.seek_to_ms)) return null;
+      return { type: 'seek', ...base, position_ms: event.position_ms, seek_to_ms: event.seek_to_ms };
+    case 'skip':
+    case 'complete':
+      if (!isDuration(event.listened_ms)) return null;
+      return { type: event.type as 'skip' | 'complete', ...base, listened_ms: event.listened_ms };
+    case 'like':
+      if (typeof event.liked !== 'boolean') return null;
+      return { type: 'like', ...base, liked: event.liked };
+  }
+}
+
+function isDuration(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0x7fffffff;
+}
+
+// Totals for one of the signed-in creator's snippets
+export interface SnippetStats {
+  impressions: number;
+  // Listens that reached the end, and those that moved on before it
+  completions: number;
+  skips: number;
+  listened_ms: number;
+}
+
+export async function fetchMySnippetStats(): Promise<Map<string, SnippetStats>> {
+  await ensureSession();
+  const { data, error } = await supabase.rpc('my_snippet_stats');
+  if (error) throw error;
+
+  const rows = data as (SnippetStats & { snippet_id: string })[];
+  // bigint columns can arrive as strings
+  return new Map(rows.map(row => [row.snippet_id, {
+    impressions: Number(row.impressions),
+    completions: Number(row.completions),
+    skips: Number(row.skips),
+    listened_ms: Number(row.listened_ms),
+  }]));
+}
@@ -0,0 +1,73 @@
+import { createHmac } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+
+// Identifies the caller of a route handler from the Supabase access token in
+// its `Authorization: Bearer` header. Server-only, like supabaseAdmin.
+
+export interface RequestUser {
+  user: User;
+  token: string;
+}
+
+export async function getRequestUser(request: Request): Promise<RequestUser | null> {
+  const match = /^Bearer (.+)$/.exec(request.headers.get('authorization') ?? '');
+  if (!match) return null;
+  return getTokenUser(match[1]);
+}
+
+// For requests that can't carry headers, such as navigator.sendBeacon, and
+// send the token in the body instead.
+export async function getTokenUser(token: string): Promise<RequestUser | null> {
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return null;
+  return { user: data.user, token };
+}
+
+// Client that acts as the caller, so row-level security applies.
+export function createUserClient(token: string) {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+export async function isModerator(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.from('moderators').select('user_id').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+export async function isBanned(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.from('banned_users').select('user_id').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+// Keyed hash of the caller's network address, so a ban can outlast the
+// anonymous account it was made against without storing raw IPs. Null when
+// the platform didn't say where the request came from.
+export function requestAddressHash(request: Request): string | null {
+  const address = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip');
+  if (!address) return null;
+  return createHmac('sha256', process.env.SUPABASE_SERVICE_ROLE_KEY!).update(address).digest('hex');
+}
+
+export async function isBannedAddress(addressHash: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('banned_addresses')
+    .select('address_hash')
+    .eq('address_hash', addressHash)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+// Remembers where a user published from, for banning those addresses later.
+export async function rememberAddress(userId: string, addressHash: string) {
+  const { error } = await supabaseAdmin
+    .from('user_addresses')
+    .upsert({ user_id: userId, address_hash: addressHash, last_seen_at: new Date().toISOString() });
+  if (error) throw error;
+}
@@ -0,0 +1,303 @@
+// Minimal container inspection for uploaded recordings: identifies the
+// container from its magic bytes and reads the clip duration without
+// decoding any audio. Used server-side where Web Audio is not available.
+
+export type AudioContainer = 'webm' | 'ogg' | 'mp4' | 'wav';
+
+export function sniffContainer(bytes: Uint8Array): AudioContainer | null {
+  // EBML header, shared by WebM and Matroska
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return 'webm';
+  }
+  // OggS capture pattern
+  if (bytes[0] === 0x4f && bytes[1] === 0x67 && bytes[2] === 0x67 && bytes[3] === 0x53) {
+    return 'ogg';
+  }
+  // ISO BMFF: a leading `ftyp` box
+  if (bytes[4] === 0x66 && bytes[5] === 0x74 && bytes[6] === 0x79 && bytes[7] === 0x70) {
+    return 'mp4';
+  }
+  // RIFF....WAVE
+  if (
+    bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+    bytes[8] === 0x57 && bytes[9] === 0x41 && bytes[10] === 0x56 && bytes[11] === 0x45
+  ) {
+    return 'wav';
+  }
+  return null;
+}
+
+// Duration in seconds, or null when the container can't be read.
+export function readDuration(bytes: Uint8Array, container: AudioContainer): number | null {
+  switch (container) {
+    case 'webm':
+      return readWebmDuration(bytes);
+    case 'ogg':
+      return readOggDuration(bytes);
+    case 'mp4':
+      return readMp4Duration(bytes);
+    case 'wav':
+      return readWavDuration(bytes);
+  }
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+// Ogg Opus: the granule position of the last page counts 48 kHz samples,
+// including the encoder pre-skip declared in the OpusHead packet.
+function readOggDuration(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // First page: 27-byte header, segment table, then the OpusHead packet
+  const segments = bytes[26];
+  const headStart = 27 + segments;
+  if (headStart + 12 > bytes.length || readAscii(bytes, headStart, 8) !== 'OpusHead') return null;
+  const preSkip = view.getUint16(headStart + 10, true);
+
+  for (let offset = bytes.length - 27; offset >= 0; offset--) {
+    if (bytes[offset] !== 0x4f || readAscii(bytes, offset, 4) !== 'OggS') continue;
+    const low = view.getUint32(offset + 6, true);
+    const high = view.getUint32(offset + 10, true);
+    // -1 marks a page on which no packet ends; keep looking further back
+    if (low === 0xffffffff && high === 0xffffffff) continue;
+    const granule = high * 2 ** 32 + low;
+    return Math.max(granule - preSkip, 0) / 48000;
+  }
+
+  return null;
+}
+
+// MP4/M4A: mvhd duration when the recorder wrote one, otherwise the summed
+// sample durations of the fragments (Safari's MediaRecorder output).
+function readMp4Duration(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const containers = new Set(['moov', 'trak', 'mdia', 'mvex', 'moof', 'traf']);
+  const fieldBoxes = new Set(['mvhd', 'mdhd', 'trex', 'tfhd', 'trun']);
+
+  let movieTimescale = 0;
+  let movieDuration = 0;
+  let mediaTimescale = 0;
+  let trexDefaultDuration = 0;
+  let fragmentTicks = 0;
+  // Set when a box is too short for the fields it must hold
+  let malformed = false;
+
+  const walk = (start: number, end: number) => {
+    let tfhdDefaultDuration = 0;
+    let offset = start;
+
+    while (offset + 8 <= end && !malformed) {
+      let size = view.getUint32(offset);
+      const type = readAscii(bytes, offset + 4, 4);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header || offset + size > end) break;
+
+      const body = offset + header;
+      const boxEnd = offset + size;
+      if (containers.has(type)) {
+        walk(body, boxEnd);
+        offset = boxEnd;
+        continue;
+      }
+      if (!fieldBoxes.has(type)) {
+        offset = boxEnd;
+        continue;
+      }
+
+      // The boxes read below are all full boxes: version, then 24 bits of flags
+      const fits = (field: number, length: number) => {
+        if (field + length <= boxEnd) return true;
+        malformed = true;
+        return false;
+      };
+      if (!fits(body, 4)) return;
+      const version = bytes[body];
+      const flags = view.getUint32(body) & 0xffffff;
+
+      if (type === 'mvhd') {
+        if (!fits(body, version === 1 ? 32 : 20)) return;
+        movieTimescale = view.getUint32(body + (version === 1 ? 20 : 12));
+        movieDuration = version === 1
+          ? Number(view.getBigUint64(body + 24))
+          : view.getUint32(body + 16);
+      } else if (type === 'mdhd') {
+        if (!fits(body, version === 1 ? 24 : 16)) return;
+        mediaTimescale = view.getUint32(body + (version === 1 ? 20 : 12));
+      } else if (type === 'trex') {
+        if (!fits(body, 16)) return;
+        trexDefaultDuration = view.getUint32(body + 12);
+      } else if (type === 'tfhd') {
+        let field = body + 8;
+        if (flags & 0x1) field += 8;
+        if (flags & 0x2) field += 4;
+        if (flags & 0x8) {
+          if (!fits(field, 4)) return;
+          tfhdDefaultDuration = view.getUint32(field);
+        }
+      } else if (type === 'trun') {
+        if (!fits(body, 8)) return;
+        const sampleCount = view.getUint32(body + 4);
+        let field = body + 8;
+        if (flags & 0x1) field += 4;
+        if (flags & 0x4) field += 4;
+
+        if (flags & 0x100) {
+          const stride = 4 * [0x100, 0x200, 0x400, 0x800].filter(bit => flags & bit).length;
+          for (let i = 0; i < sampleCount; i++, field += stride) {
+            if (!fits(field, 4)) return;
+            fragmentTicks += view.getUint32(field);
+          }
+        } else {
+          fragmentTicks += sampleCount * (tfhdDefaultDuration || trexDefaultDuration);
+        }
+      }
+
+      offset = boxEnd;
+    }
+  };
+
+  walk(0, bytes.length);
+
+  if (malformed) return null;
+  if (movieTimescale && movieDuration) return movieDuration / movieTimescale;
+  if (mediaTimescale && fragmentTicks) return fragmentTicks / mediaTimescale;
+  return null;
+}
+
+function readWavDuration(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let byteRate: number | null = null;
+
+  // Chunks follow the 12-byte RIFF header, each padded to an even size
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkId = readAscii(bytes, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const dataStart = offset + 8;
+
+    if (chunkId === 'fmt ' && dataStart + 12 <= bytes.length) {
+      byteRate = view.getUint32(dataStart + 8, true);
+    } else if (chunkId === 'data') {
+      if (!byteRate) return null;
+      // Trust the bytes actually present over a header that claims more
+      return Math.min(chunkSize, bytes.length - dataStart) / byteRate;
+    }
+
+    offset = dataStart + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+// EBML element ids (with their length marker bits, as they appear on disk)
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_CLUSTER_TIMECODE = 0xe7;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_BLOCK = 0xa1;
+const EBML_SIMPLE_BLOCK = 0xa3;
+
+// Masters we step into rather than skip. Their children are read in a flat
+// walk, which also copes with the unknown-size Segment and Cluster elements
+// MediaRecorder writes while streaming.
+const EBML_MASTERS = new Set([EBML_SEGMENT, EBML_INFO, EBML_CLUSTER, EBML_BLOCK_GROUP]);
+
+interface Vint {
+  value: number;
+  length: number;
+  unknown: boolean;
+}
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): Vint | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xff;
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUint(bytes: Uint8Array, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+  return value;
+}
+
+function readWebmDuration(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let timecodeScale = 1_000_000; // ns per tick, the Matroska default
+  let declaredDuration: number | null = null;
+  let clusterTimecode = 0;
+  let lastBlockTimecode: number | null = null;
+
+  // Skip the EBML header element
+  let offset = 0;
+  const headerId = readVint(bytes, offset, true);
+  const headerSize = headerId && readVint(bytes, offset + headerId.length, false);
+  if (!headerId || !headerSize || headerSize.unknown) return null;
+  offset += headerId.length + headerSize.length + headerSize.value;
+
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    if (!id) break;
+    const size = readVint(bytes, offset + id.length, false);
+    if (!size) break;
+    const dataStart = offset + id.length + size.length;
+
+    if (EBML_MASTERS.has(id.value)) {
+      offset = dataStart;
+      continue;
+    }
+    // Only masters may have an unknown size; anything else means a corrupt file
+    if (size.unknown || dataStart + size.value > bytes.length) break;
+
+    switch (id.value) {
+      case EBML_TIMECODE_SCALE:
+        timecodeScale = readUint(bytes, dataStart, size.value);
+        break;
+      case EBML_DURATION:
+        if (size.value === 4) declaredDuration = view.getFloat32(dataStart);
+        else if (size.value === 8) declaredDuration = view.getFloat64(dataStart);
+        break;
+      case EBML_CLUSTER_TIMECODE:
+        clusterTimecode = readUint(bytes, dataStart, size.value);
+        break;
+      case EBML_SIMPLE_BLOCK:
+      case EBML_BLOCK: {
+        // Track number vint, then a signed 16-bit timecode relative to the cluster
+        const track = readVint(bytes, dataStart, false);
+        if (!track || track.length + 2 > size.value) break;
+        const relative = view.getInt16(dataStart + track.length);
+        const timecode = clusterTimecode + relative;
+        lastBlockTimecode = Math.max(lastBlockTimecode ?? 0, timecode);
+        break;
+      }
+    }
+
+    offset = dataStart + size.value;
+  }
+
+  const ticks = declaredDuration ?? lastBlockTimecode;
+  if (ticks === null || !Number.isFinite(ticks)) return null;
+  return (ticks * timecodeScale) / 1e9;
+}
@@ -0,0 +1,61 @@
+// Browser-side helpers for reviewing a recording before it is published.
+
+// Sample rate trimmed clips are re-encoded at. Plenty for voice and keeps a
+// full-length WAV under the upload size limit.
+export const TRIM_SAMPLE_RATE = 24000;
+
+export async function decodeRecording(recording: Blob): Promise<AudioBuffer> {
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContext();
+  try {
+    return await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    context.close().catch(console.error);
+  }
+}
+
+// Renders `buffer` between `start` and `end` seconds to a mono WAV file.
+export async function trimRecording(buffer: AudioBuffer, start: number, end: number): Promise<Blob> {
+  const duration = Math.max(end - start, 0);
+  const frames = Math.max(Math.ceil(duration * TRIM_SAMPLE_RATE), 1);
+  const context = new OfflineAudioContext(1, frames, TRIM_SAMPLE_RATE);
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start(0, start, duration);
+
+  return encodeWav(await context.startRendering());
+}
+
+// 16-bit PCM WAV of the buffer's first channel.
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const samples = buffer.getChannelData(0);
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
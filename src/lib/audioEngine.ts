@@ -0,0 +1,281 @@
+// One long-lived Web Audio graph for the whole app. Tracks come and go, but
+// the context, master gain and analyser stay put, so switching snippets never
+// rebuilds the graph or re-triggers the browser's autoplay policy.
+//
+//   <audio> → MediaElementSource → deck gain ┐
+//   <audio> → MediaElementSource → deck gain ┴→ master gain → analyser → mute gain → destination
+//
+// Muting happens after the analyser, so the visualizer keeps moving for
+// listeners following along with captions.
+//
+// A crossfade briefly runs two decks at once: the outgoing one ramps down
+// while the incoming one ramps up.
+
+export type TrackTransition = 'cut' | 'crossfade';
+
+export type AudioEngineEvent =
+  // Position or duration of the current track changed
+  | 'timeupdate'
+  // The current track played to its end
+  | 'ended'
+  // The current track is within the crossfade window of its end
+  | 'ending'
+  // A new track was loaded
+  | 'trackchange';
+
+export interface LoadOptions {
+  transition?: TrackTransition;
+  loop?: boolean;
+  // Element that has already been loading this track, such as one taken from
+  // the preload cache. The engine owns it from then on.
+  element?: HTMLAudioElement;
+}
+
+export interface AudioEngineOptions {
+  // Length of autoplay crossfades. 0 switches tracks back to back.
+  crossfadeMs?: number;
+}
+
+export const DEFAULT_CROSSFADE_MS = 1500;
+
+interface Deck {
+  element: HTMLAudioElement;
+  gain: GainNode;
+}
+
+export class AudioEngine {
+  readonly crossfadeMs: number;
+
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private muteGain: GainNode | null = null;
+  // An element can only ever be wrapped by one MediaElementSource
+  private sources = new WeakMap<HTMLAudioElement, MediaElementAudioSourceNode>();
+  private current: Deck | null = null;
+  private fading = new Map<Deck, ReturnType<typeof setTimeout>>();
+  private listeners = new Map<AudioEngineEvent, Set<() => void>>();
+  private wantsPlayback = false;
+  private endingFired = false;
+  private isMuted = false;
+  private removeGestureListeners: (() => void) | null = null;
+
+  constructor({ crossfadeMs = DEFAULT_CROSSFADE_MS }: AudioEngineOptions = {}) {
+    this.crossfadeMs = crossfadeMs;
+  }
+
+  get currentTime(): number {
+    return this.current?.element.currentTime ?? 0;
+  }
+
+  // May be Infinity for streamed WebM until the browser has read the whole file
+  get duration(): number {
+    return this.current?.element.duration ?? 0;
+  }
+
+  get muted(): boolean {
+    return this.isMuted;
+  }
+
+  getAnalyser(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  on(event: AudioEngineEvent, listener: () => void): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      this.listeners.get(event)?.delete(listener);
+    };
+  }
+
+  load(url: string, { transition = 'cut', loop = false, element }: LoadOptions = {}) {
+    const graph = this.ensureGraph();
+    const previous = this.current;
+
+    const audio = element ?? new Audio();
+    audio.crossOrigin = 'anonymous';
+    audio.preload = 'auto';
+    audio.loop = loop;
+    if (element) {
+      audio.currentTime = 0;
+    } else {
+      audio.src = url;
+    }
+
+    let source = this.sources.get(audio);
+    if (!source) {
+      source = graph.context.createMediaElementSource(audio);
+      this.sources.set(audio, source);
+    }
+    const gain = graph.context.createGain();
+    source.connect(gain);
+    gain.connect(graph.master);
+
+    const deck: Deck = { element: audio, gain };
+    audio.ontimeupdate = () => this.handleTimeUpdate(deck);
+    audio.ondurationchange = () => this.handleTimeUpdate(deck);
+    audio.onended = () => {
+      if (deck === this.current) this.emit('ended');
+    };
+    audio.onerror = () => console.error('AudioEngine: Audio load error', { url });
+
+    this.current = deck;
+    this.endingFired = false;
+    console.log('AudioEngine: Loading track', { url, transition });
+
+    if (previous) {
+      const canFade = transition === 'crossfade' && this.crossfadeMs > 0 && !previous.element.paused;
+      if (canFade) {
+        this.fadeOut(previous);
+        const now = graph.context.currentTime;
+        gain.gain.setValueAtTime(0, now);
+        gain.gain.linearRampToValueAtTime(1, now + this.crossfadeMs / 1000);
+      } else {
+        this.retire(previous);
+      }
+    }
+
+    if (this.wantsPlayback) this.startCurrent();
+    this.emit('trackchange');
+  }
+
+  async play() {
+    this.wantsPlayback = true;
+    await this.startCurrent();
+  }
+
+  pause() {
+    this.wantsPlayback = false;
+    this.current?.element.pause();
+    // Nothing should keep sounding after a pause, fading or not
+    Array.from(this.fading.keys()).forEach(deck => this.retire(deck));
+  }
+
+  // Silences the output after the analyser, so it holds across tracks and
+  // crossfades without flattening the visualizer
+  setMuted(muted: boolean) {
+    this.isMuted = muted;
+    if (this.muteGain) this.muteGain.gain.value = muted ? 0 : 1;
+  }
+
+  setLoop(loop: boolean) {
+    if (this.current) this.current.element.loop = loop;
+  }
+
+  seek(time: number) {
+    const audio = this.current?.element;
+    if (!audio) return;
+    const limit = Number.isFinite(audio.duration) ? audio.duration : time;
+    audio.currentTime = Math.max(0, Math.min(time, limit));
+    this.endingFired = false;
+    this.emit('timeupdate');
+  }
+
+  private ensureGraph() {
+    if (!this.context || !this.master || !this.analyser || !this.muteGain) {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      this.context = new AudioContext({ latencyHint: 'interactive' });
+      this.master = this.context.createGain();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 2048;
+      this.muteGain = this.context.createGain();
+      this.muteGain.gain.value = this.isMuted ? 0 : 1;
+      this.master.connect(this.analyser);
+      this.analyser.connect(this.muteGain);
+      this.muteGain.connect(this.context.destination);
+    }
+    return { context: this.context, master: this.master };
+  }
+
+  private async startCurrent() {
+    const deck = this.current;
+    if (!deck || !this.context) return;
+
+    try {
+      if (this.context.state === 'suspended') await this.context.resume();
+      // A newer load or a pause may have landed while the context resumed
+      if (deck !== this.current || !this.wantsPlayback) return;
+      await deck.element.play();
+      console.log('AudioEngine: Playback started');
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : null;
+      if (name === 'NotAllowedError') {
+        console.log('AudioEngine: Waiting for user interaction');
+        this.resumeOnGesture();
+      } else if (name !== 'AbortError') {
+        // AbortError only means a newer load or pause interrupted play()
+        console.error('AudioEngine: Playback error:', error);
+      }
+    }
+  }
+
+  // Autoplay policies only let the context start from a user gesture
+  private resumeOnGesture() {
+    if (this.removeGestureListeners) return;
+
+    const resume = () => {
+      this.removeGestureListeners?.();
+      if (this.wantsPlayback) this.startCurrent();
+    };
+    window.addEventListener('click', resume);
+    window.addEventListener('touchstart', resume);
+    window.addEventListener('keydown', resume);
+
+    this.removeGestureListeners = () => {
+      window.removeEventListener('click', resume);
+      window.removeEventListener('touchstart', resume);
+      window.removeEventListener('keydown', resume);
+      this.removeGestureListeners = null;
+    };
+  }
+
+  private handleTimeUpdate(deck: Deck) {
+    if (deck !== this.current) return;
+    this.emit('timeupdate');
+
+    const { element } = deck;
+    if (this.endingFired || element.loop || !this.crossfadeMs || !Number.isFinite(element.duration)) return;
+    if (element.duration - element.currentTime <= this.crossfadeMs / 1000) {
+      this.endingFired = true;
+      this.emit('ending');
+    }
+  }
+
+  private fadeOut(deck: Deck) {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    deck.gain.gain.cancelScheduledValues(now);
+    deck.gain.gain.setValueAtTime(deck.gain.gain.value, now);
+    deck.gain.gain.linearRampToValueAtTime(0, now + this.crossfadeMs / 1000);
+    this.fading.set(deck, setTimeout(() => this.retire(deck), this.crossfadeMs));
+  }
+
+  private retire(deck: Deck) {
+    const timeout = this.fading.get(deck);
+    if (timeout) clearTimeout(timeout);
+    this.fading.delete(deck);
+
+    const { element } = deck;
+    this.sources.get(element)?.disconnect(deck.gain);
+    deck.gain.disconnect();
+    // The same preloaded element can be loaded again straight away
+    if (element === this.current?.element) return;
+
+    element.pause();
+    element.ontimeupdate = null;
+    element.ondurationchange = null;
+    element.onended = null;
+    element.onerror = null;
+    element.removeAttribute('src');
+    element.load();
+  }
+
+  private emit(event: AudioEngineEvent) {
+    this.listeners.get(event)?.forEach(listener => listener());
+  }
+}
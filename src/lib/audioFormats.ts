@@ -0,0 +1,42 @@
+import type { AudioSnippet, AudioSource } from '@/lib/snippets';
+
+export interface RecordingFormat {
+  // Passed to MediaRecorder, may carry codec parameters
+  mimeType: string;
+  // Sent with the upload; one of SNIPPET_CONTENT_TYPES
+  contentType: string;
+}
+
+// Tried in order; the first one this browser's MediaRecorder supports wins.
+// Chrome and Firefox record WebM or Ogg Opus, Safari only MP4/AAC.
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  { mimeType: 'audio/webm;codecs=opus', contentType: 'audio/webm' },
+  { mimeType: 'audio/ogg;codecs=opus', contentType: 'audio/ogg' },
+  { mimeType: 'audio/mp4;codecs=mp4a.40.2', contentType: 'audio/mp4' },
+  { mimeType: 'audio/mp4', contentType: 'audio/mp4' },
+];
+
+export function pickRecordingFormat(): RecordingFormat | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDING_FORMATS.find(format => MediaRecorder.isTypeSupported(format.mimeType)) ?? null;
+}
+
+let probe: HTMLAudioElement | null = null;
+
+// Prefers a source the browser is confident about ("probably") over one it
+// only might play ("maybe"). Returns null when none are playable.
+export function pickPlayableSource(sources: AudioSource[]): AudioSource | null {
+  probe ??= document.createElement('audio');
+  const support = sources.map(source => probe!.canPlayType(source.mimeType));
+  const best = support.indexOf('probably');
+  const fallback = support.indexOf('maybe');
+  const index = best !== -1 ? best : fallback;
+  return index === -1 ? null : sources[index];
+}
+
+// Points `url` at a source this browser can play, or returns null so the
+// feed can leave the snippet out.
+export function resolvePlayableSnippet(snippet: AudioSnippet): AudioSnippet | null {
+  const source = pickPlayableSource(snippet.sources);
+  return source ? { ...snippet, url: source.url } : null;
+}
@@ -0,0 +1,89 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+// Listeners get an anonymous Supabase account the first time they need one.
+// Adding an email later keeps the same user, and so their snippets and likes.
+
+// Per-browser id used for likes before accounts existed
+const LEGACY_LISTENER_ID_KEY = 'wavelength:listener-id';
+
+let pendingSignIn: Promise<Session> | null = null;
+
+// The current session, signing in anonymously if there is none yet.
+export async function ensureSession(): Promise<Session> {
+  const { data, error } = await supabase.auth.getSession();
+  if (error) throw error;
+  if (data.session) return data.session;
+
+  if (!pendingSignIn) {
+    pendingSignIn = signInAnonymously().finally(() => {
+      pendingSignIn = null;
+    });
+  }
+  return pendingSignIn;
+}
+
+async function signInAnonymously(): Promise<Session> {
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  if (!data.session) throw new Error('Anonymous sign-in returned no session');
+  console.log('Auth: Signed in anonymously');
+
+  await claimLegacyLikes();
+  return data.session;
+}
+
+// Carries likes made under the old per-browser id over to the account.
+async function claimLegacyLikes() {
+  const legacyId = window.localStorage.getItem(LEGACY_LISTENER_ID_KEY);
+  if (!legacyId) return;
+
+  const { data, error } = await supabase.rpc('claim_listener_likes', { p_listener_id: legacyId });
+  if (error) {
+    console.error('Auth: Failed to claim earlier likes', error);
+    return;
+  }
+  console.log('Auth: Claimed earlier likes', { count: data });
+  window.localStorage.removeItem(LEGACY_LISTENER_ID_KEY);
+}
+
+export async function getAccessToken(): Promise<string> {
+  return (await ensureSession()).access_token;
+}
+
+export function isAnonymousUser(user: User | null): boolean {
+  return !user || !!user.is_anonymous;
+}
+
+// Attaches an email to the current anonymous account. The link in the
+// confirmation email completes the upgrade.
+export async function upgradeWithEmail(email: string) {
+  const { error } = await supabase.auth.updateUser(
+    { email },
+    { emailRedirectTo: `${window.location.origin}/me` }
+  );
+  if (error) throw error;
+}
+
+// Sends a magic link for an account that already has an email, e.g. to use
+// it on another device.
+export async function signInWithEmail(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: `${window.location.origin}/me`, shouldCreateUser: false },
+  });
+  if (error) throw error;
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
+
+// Calls `onChange` with the signed-in user (or null) now and on every change.
+// Returns an unsubscribe function.
+export function subscribeToUser(onChange: (user: User | null) => void): () => void {
+  supabase.auth.getSession().then(({ data }) => onChange(data.session?.user ?? null));
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => onChange(session?.user ?? null));
+  return () => data.subscription.unsubscribe();
+}
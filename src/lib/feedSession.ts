@@ -0,0 +1,130 @@
+import { DEFAULT_FEED_SOURCE, FEED_TABS, FeedSource } from '@/lib/feedSource';
+import { isUuid } from '@/lib/ids';
+import { createRankingSeed, createRankingTime } from '@/lib/ranking';
+import { isOffline } from '@/lib/offline';
+
+// Where a listener is in one of the main feed's tabs, saved so coming back
+// picks up from there instead of starting over. Kept in localStorage per tab
+// and, optionally, in the URL as ?feed=new&seed=123&track=<id>&t=42 (the
+// heard list is too long for a URL and stays local).
+export interface FeedSession {
+  // Seeds the shuffle and the "For you" ranking, so pages come back in the
+  // same order
+  seed: number;
+  // The moment "For you" and "Top today" are ranked as of; see ranking.ts
+  asOf: string;
+  trackId: string | null;
+  // Seconds into the track
+  position: number;
+  // Snippets listened to the end, oldest first; played after everything else
+  heardIds: string[];
+}
+
+export type ResumableSourceKind = 'for-you' | 'new' | 'top-today' | 'following';
+
+const SESSION_KEY_PREFIX = 'wavelength:feed-session:';
+const LAST_KIND_KEY = 'wavelength:feed-kind';
+// Oldest heard ids are forgotten past this many
+const MAX_HEARD_IDS = 500;
+// Older rankings are redone on load so the feed doesn't go stale, except
+// offline, where only the requests already cached can be answered
+const MAX_RANKING_AGE_MS = 6 * 60 * 60 * 1000;
+
+export function isResumableSourceKind(value: unknown): value is ResumableSourceKind {
+  return FEED_TABS.some(tab => tab.source.kind === value);
+}
+
+export function createFeedSession(): FeedSession {
+  return { seed: createRankingSeed(), asOf: createRankingTime(), trackId: null, position: 0, heardIds: [] };
+}
+
+// The saved session for a tab, with anything in the URL for the same tab
+// taking precedence, or a new one.
+export function loadFeedSession(kind: ResumableSourceKind, { fromUrl = false } = {}): FeedSession {
+  const session = readStoredSession(kind) ?? createFeedSession();
+  if (Date.now() - Date.parse(session.asOf) > MAX_RANKING_AGE_MS && !isOffline()) {
+    session.asOf = createRankingTime();
+  }
+  if (!fromUrl) return session;
+
+  const params = new URLSearchParams(window.location.search);
+  if ((params.get('feed') ?? DEFAULT_FEED_SOURCE.kind) !== kind) return session;
+
+  const seed = Number(params.get('seed'));
+  if (params.has('seed') && isSeed(seed)) session.seed = seed;
+  const trackId = params.get('track');
+  if (trackId && isUuid(trackId)) {
+    session.trackId = trackId;
+    const position = Number(params.get('t'));
+    session.position = Number.isFinite(position) && position > 0 ? position : 0;
+  }
+  return session;
+}
+
+export function saveFeedSession(kind: ResumableSourceKind, session: FeedSession, { toUrl = false } = {}) {
+  window.localStorage.setItem(SESSION_KEY_PREFIX + kind, JSON.stringify(session));
+  window.localStorage.setItem(LAST_KIND_KEY, kind);
+  if (!toUrl) return;
+
+  const url = new URL(window.location.href);
+  url.searchParams.set('feed', kind);
+  url.searchParams.set('seed', String(session.seed));
+  if (session.trackId) {
+    url.searchParams.set('track', session.trackId);
+    url.searchParams.set('t', String(Math.floor(session.position)));
+  } else {
+    url.searchParams.delete('track');
+    url.searchParams.delete('t');
+  }
+  // Keep the router's own history state; only the query changes
+  window.history.replaceState(window.history.state, '', url);
+}
+
+export function markHeard(session: FeedSession, snippetId: string) {
+  session.heardIds = [...session.heardIds.filter(id => id !== snippetId), snippetId].slice(-MAX_HEARD_IDS);
+}
+
+// The tab the listener was last on, from the URL if it names one.
+export function loadLastFeedSource(): FeedSource {
+  const fromUrl = new URLSearchParams(window.location.search).get('feed');
+  const kind = fromUrl ?? window.localStorage.getItem(LAST_KIND_KEY);
+  return FEED_TABS.find(tab => tab.source.kind === kind)?.source ?? DEFAULT_FEED_SOURCE;
+}
+
+// Deterministic generator in [0, 1) (mulberry32), for shuffles that come out
+// the same for the same seed.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function readStoredSession(kind: ResumableSourceKind): FeedSession | null {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SESSION_KEY_PREFIX + kind) ?? 'null');
+    if (!stored || !isSeed(stored.seed)) return null;
+    return {
+      seed: stored.seed,
+      // Sessions saved before rankings were pinned rank as of now
+      asOf: typeof stored.asOf === 'string' && !Number.isNaN(Date.parse(stored.asOf))
+        ? stored.asOf
+        : createRankingTime(),
+      trackId: typeof stored.trackId === 'string' ? stored.trackId : null,
+      position: typeof stored.position === 'number' && stored.position > 0 ? stored.position : 0,
+      heardIds: Array.isArray(stored.heardIds)
+        ? stored.heardIds.filter((id: unknown): id is string => typeof id === 'string')
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0x7fffffff;
+}
@@ -0,0 +1,75 @@
+import type { AudioSnippet, SnippetCursor, SnippetPageOptions } from '@/lib/snippets';
+import { ensureSession } from '@/lib/auth';
+import { fetchFollowedIds } from '@/lib/profiles';
+import { OffsetCursor, RankingOptions, createRankingSeed, createRankingTime } from '@/lib/ranking';
+
+// Which snippets a feed plays
+export type FeedSource =
+  // Ranked by the database; see src/lib/ranking.ts
+  | { kind: 'for-you' }
+  | { kind: 'new' }
+  | { kind: 'top-today' }
+  | { kind: 'following' }
+  | { kind: 'creator'; ownerId: string }
+  // A hashtag channel, e.g. #music; see src/lib/tags.ts
+  | { kind: 'tag'; tag: string }
+  // A snippet's replies in the order they were posted
+  | { kind: 'thread'; parentId: string };
+
+// Sources a listener can switch between with the feed's tabs
+export const FEED_TABS: { source: FeedSource; label: string }[] = [
+  { source: { kind: 'for-you' }, label: 'For you' },
+  { source: { kind: 'new' }, label: 'New' },
+  { source: { kind: 'top-today' }, label: 'Top today' },
+  { source: { kind: 'following' }, label: 'Following' },
+];
+
+export const DEFAULT_FEED_SOURCE: FeedSource = { kind: 'for-you' };
+
+export interface FeedFilter extends SnippetPageOptions {
+  // Pages come from a ranking instead of the newest-first listing
+  ranking?: RankingOptions;
+  // Shuffle each page as it arrives rather than playing it as listed
+  shuffle: boolean;
+}
+
+// Ranked listings page by position, the rest by (created_at, id)
+export type FeedCursor = SnippetCursor | OffsetCursor;
+
+// Page filter for a source, resolved once when the feed loads. Pass the seed
+// and ranking time of a resumed session to get the same ranked order back.
+export async function resolveFeedFilter(
+  source: FeedSource,
+  seed = createRankingSeed(),
+  asOf = createRankingTime()
+): Promise<FeedFilter> {
+  switch (source.kind) {
+    case 'for-you':
+      return { ranking: { mode: 'for-you', seed, asOf }, shuffle: false };
+    case 'new':
+      return { shuffle: false };
+    case 'top-today':
+      return { ranking: { mode: 'top-today', asOf }, shuffle: false };
+    case 'creator':
+      return { ownerIds: [source.ownerId], shuffle: true };
+    case 'tag':
+      return { tag: source.tag, shuffle: true };
+    case 'thread':
+      return { parentId: source.parentId, shuffle: false };
+    case 'following': {
+      // Fine for the follow counts we expect; a join in the database would
+      // scale better if lists grow into the thousands
+      const { user } = await ensureSession();
+      return { ownerIds: await fetchFollowedIds(user.id), shuffle: true };
+    }
+  }
+}
+
+// Whether a snippet that arrives live belongs in a feed with this filter.
+export function matchesFeedFilter(snippet: AudioSnippet, filter: SnippetPageOptions): boolean {
+  if (filter.parentId) return snippet.parent_id === filter.parentId;
+  if (snippet.parent_id && !filter.includeReplies) return false;
+  if (filter.tag && !snippet.tags.includes(filter.tag)) return false;
+  if (!filter.ownerIds) return true;
+  return !!snippet.owner_id && filter.ownerIds.includes(snippet.owner_id);
+}
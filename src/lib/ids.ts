@@ -0,0 +1,8 @@
+// Snippet and user ids are Postgres uuids. Checking them up front turns a
+// malformed id into a 404 or a dropped value instead of a failed uuid cast
+// in the database.
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
@@ -0,0 +1,13 @@
+// Shared checks for the single-key shortcuts in the feed and recorder.
+
+// Keys typed into a field belong to the field, not to shortcuts
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Leaves browser and system shortcuts such as Ctrl+L alone. Shift is allowed
+// so "?" and capitals still count.
+export function hasCommandModifier(e: KeyboardEvent): boolean {
+  return e.ctrlKey || e.metaKey || e.altKey;
+}
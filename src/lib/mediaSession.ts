@@ -0,0 +1,87 @@
+import type { AudioSnippet } from '@/lib/snippets';
+
+// Lock-screen, notification and headset controls through the Media Session
+// API (https://w3c.github.io/mediasession/). Browsers without it get no-ops.
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  nexttrack: () => void;
+  previoustrack: () => void;
+  // Seconds from the start of the clip
+  seekto: (time: number) => void;
+}
+
+function getMediaSession(): MediaSession | null {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator ? navigator.mediaSession : null;
+}
+
+export function setMediaSessionMetadata(snippet: AudioSnippet | null, artworkUrl?: string) {
+  const session = getMediaSession();
+  if (!session) return;
+  if (!snippet) {
+    session.metadata = null;
+    return;
+  }
+
+  session.metadata = new MediaMetadata({
+    title: snippet.tags.length ? snippet.tags.map(tag => `#${tag}`).join(' ') : 'Snippet',
+    artist: snippet.owner ? `@${snippet.owner.handle}` : 'Anonymous',
+    album: 'Wavelength',
+    artwork: artworkUrl ? [{ src: artworkUrl, sizes: '512x512', type: 'image/png' }] : [],
+  });
+}
+
+export function setMediaSessionPlaybackState(playing: boolean) {
+  const session = getMediaSession();
+  if (session) session.playbackState = playing ? 'playing' : 'paused';
+}
+
+export function setMediaSessionPosition(duration: number, position: number) {
+  const session = getMediaSession();
+  if (!session?.setPositionState) return;
+  try {
+    if (duration > 0) {
+      session.setPositionState({ duration, position: Math.min(Math.max(position, 0), duration), playbackRate: 1 });
+    } else {
+      session.setPositionState();
+    }
+  } catch (error) {
+    // Older implementations reject some valid states; the controls still work
+    console.error('MediaSession: Failed to set position state:', error);
+  }
+}
+
+// Registers the handlers and returns a function that removes them.
+export function setMediaSessionActionHandlers(handlers: MediaSessionHandlers): () => void {
+  const session = getMediaSession();
+  if (!session) return () => {};
+
+  const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => handlers.play()],
+    ['pause', () => handlers.pause()],
+    ['nexttrack', () => handlers.nexttrack()],
+    ['previoustrack', () => handlers.previoustrack()],
+    ['seekto', details => {
+      if (details.seekTime !== undefined) handlers.seekto(details.seekTime);
+    }],
+  ];
+
+  for (const [action, handler] of actions) {
+    try {
+      session.setActionHandler(action, handler);
+    } catch {
+      // Browsers throw for actions they don't support
+    }
+  }
+
+  return () => {
+    for (const [action] of actions) {
+      try {
+        session.setActionHandler(action, null);
+      } catch {
+        // Not supported, so nothing was registered
+      }
+    }
+  };
+}
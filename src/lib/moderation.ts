@@ -0,0 +1,89 @@
+import { supabase } from '@/lib/supabase';
+import { ensureSession, getAccessToken } from '@/lib/auth';
+import type { AudioSnippet } from '@/lib/snippets';
+
+// Mirrors the check constraint on snippet_reports.reason
+export const REPORT_REASONS = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate: 'Hate speech',
+  sexual: 'Sexual content',
+  violence: 'Violence or threats',
+  other: 'Something else',
+} as const;
+
+export type ReportReason = keyof typeof REPORT_REASONS;
+
+export type ModerationErrorCode = 'unauthorized' | 'forbidden' | 'not_found' | 'server_error';
+
+export interface ModerationErrorBody {
+  error: {
+    code: ModerationErrorCode;
+    message: string;
+  };
+}
+
+export interface ModerationQueueItem {
+  snippet: AudioSnippet;
+  report_count: number;
+  // Reports since the last review, by reason
+  reasons: Partial<Record<ReportReason, number>>;
+  owner_banned: boolean;
+}
+
+export interface ModerationQueueResponse {
+  items: ModerationQueueItem[];
+}
+
+export class ModerationError extends Error {
+  constructor(public code: ModerationErrorCode, message: string) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+// Reports a snippet as the signed-in user. Reporting twice counts once.
+// Resolves to true when the snippet is now hidden.
+export async function reportSnippet(snippetId: string, reason: ReportReason): Promise<boolean> {
+  await ensureSession();
+  const { data, error } = await supabase.rpc('report_snippet', {
+    p_snippet_id: snippetId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data as boolean;
+}
+
+async function moderationRequest<T>(path: string, method: string): Promise<T | null> {
+  const response = await fetch(`/api/moderation/${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${await getAccessToken()}` },
+  });
+
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = (body as ModerationErrorBody | null)?.error;
+    throw new ModerationError(error?.code ?? 'server_error', error?.message ?? 'Something went wrong. Please try again.');
+  }
+  return body as T | null;
+}
+
+export async function fetchModerationQueue(): Promise<ModerationQueueItem[]> {
+  const body = await moderationRequest<ModerationQueueResponse>('queue', 'GET');
+  return body?.items ?? [];
+}
+
+// Unhides a snippet and clears its reports
+export async function restoreSnippet(snippetId: string): Promise<void> {
+  await moderationRequest(`snippets/${snippetId}/restore`, 'POST');
+}
+
+export async function removeReportedSnippet(snippetId: string): Promise<void> {
+  await moderationRequest(`snippets/${snippetId}`, 'DELETE');
+}
+
+// Stops a user uploading and hides everything they've published
+export async function banUser(userId: string): Promise<void> {
+  await moderationRequest(`users/${userId}/ban`, 'POST');
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { RequestUser, getRequestUser, isModerator } from '@/lib/apiAuth';
+import type { ModerationErrorBody, ModerationErrorCode } from '@/lib/moderation';
+
+// Shared by the /api/moderation route handlers. Server-only.
+
+export function moderationErrorResponse(status: number, code: ModerationErrorCode, message: string) {
+  return NextResponse.json<ModerationErrorBody>({ error: { code, message } }, { status });
+}
+
+// The calling moderator, or the response to send back when the caller
+// isn't one.
+export async function authorizeModerator(request: Request, route: string): Promise<RequestUser | NextResponse> {
+  const caller = await getRequestUser(request);
+  if (!caller) {
+    return moderationErrorResponse(401, 'unauthorized', 'Sign in to moderate.');
+  }
+
+  try {
+    if (!(await isModerator(caller.user.id))) {
+      return moderationErrorResponse(403, 'forbidden', "You don't have access to moderation.");
+    }
+  } catch (error) {
+    console.error(`${route}: Moderator lookup failed`, error);
+    return moderationErrorResponse(500, 'server_error', 'Something went wrong. Please try again.');
+  }
+
+  return caller;
+}
@@ -0,0 +1,24 @@
+// Page-side half of offline support; the service worker is public/sw.js.
+
+// Must match AUDIO_CACHE in public/sw.js
+const AUDIO_CACHE = 'wavelength-audio';
+
+export function registerServiceWorker() {
+  // A caching worker fights hot reloading, so only production builds get one
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.register('/sw.js').catch(error => {
+    console.error('ServiceWorker: Registration failed', error);
+  });
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// Whether the service worker has a copy of the audio at `url`.
+export async function isAudioCached(url: string): Promise<boolean> {
+  if (!('caches' in window)) return false;
+  const cache = await caches.open(AUDIO_CACHE);
+  return !!(await cache.match(url));
+}
@@ -0,0 +1,97 @@
+// Precomputed waveform peaks, stored with each snippet so a waveform can be
+// drawn before (or without) loading the audio.
+//
+// Format, version 1 (the `snippets.peaks` jsonb column):
+//
+//   {
+//     "v": 1,
+//     "duration": 12.48,          // seconds, of the published clip
+//     "levels": {
+//       "32":  "<base64>",       // one level per entry in PEAK_RESOLUTIONS
+//       "128": "<base64>",
+//       "512": "<base64>"
+//     }
+//   }
+//
+// Each level splits the clip into N equal slices. Its base64 string decodes
+// to N bytes, each the peak absolute amplitude of its slice scaled to 0-255
+// across all channels. Peaks are computed in the browser at publish time, so
+// they are only ever used for display.
+
+export const PEAKS_VERSION = 1;
+export const PEAK_RESOLUTIONS = [32, 128, 512] as const;
+
+export interface WaveformPeaks {
+  v: typeof PEAKS_VERSION;
+  duration: number;
+  levels: Record<string, string>;
+}
+
+// Peak amplitude (0-1) across all channels for `count` equal slices of the
+// buffer between `start` and `end` seconds.
+export function computePeaks(buffer: AudioBuffer, count: number, start = 0, end = buffer.duration): number[] {
+  const peaks = new Array<number>(count).fill(0);
+  const firstSample = Math.floor(start * buffer.sampleRate);
+  const lastSample = Math.min(Math.ceil(end * buffer.sampleRate), buffer.length);
+  const samplesPerPeak = Math.max(lastSample - firstSample, 0) / count;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < count; i++) {
+      const sliceStart = firstSample + Math.floor(i * samplesPerPeak);
+      const sliceEnd = Math.min(firstSample + Math.floor((i + 1) * samplesPerPeak), lastSample);
+      let max = peaks[i];
+      for (let j = sliceStart; j < sliceEnd; j++) {
+        const value = Math.abs(data[j]);
+        if (value > max) max = value;
+      }
+      peaks[i] = Math.min(max, 1);
+    }
+  }
+
+  return peaks;
+}
+
+export function buildWaveformPeaks(buffer: AudioBuffer, start = 0, end = buffer.duration): WaveformPeaks {
+  const levels: Record<string, string> = {};
+  for (const count of PEAK_RESOLUTIONS) {
+    const bytes = Uint8Array.from(computePeaks(buffer, count, start, end), peak => Math.round(peak * 255));
+    levels[count] = btoa(String.fromCharCode(...Array.from(bytes)));
+  }
+  return { v: PEAKS_VERSION, duration: end - start, levels };
+}
+
+// Peaks (0-1) from the smallest stored level with at least `minCount`
+// entries, or the largest level if none is that detailed.
+export function readPeaks(peaks: WaveformPeaks, minCount: number): number[] {
+  const count = PEAK_RESOLUTIONS.find(resolution => resolution >= minCount)
+    ?? PEAK_RESOLUTIONS[PEAK_RESOLUTIONS.length - 1];
+  const encoded = peaks.levels[count];
+  if (!encoded) return [];
+  return Array.from(atob(encoded), char => char.charCodeAt(0) / 255);
+}
+
+// Returns the value as WaveformPeaks if it matches the documented format.
+export function parseWaveformPeaks(value: unknown): WaveformPeaks | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Partial<WaveformPeaks>;
+  if (candidate.v !== PEAKS_VERSION) return null;
+  if (typeof candidate.duration !== 'number' || !Number.isFinite(candidate.duration) || candidate.duration <= 0) {
+    return null;
+  }
+  if (!candidate.levels || typeof candidate.levels !== 'object') return null;
+
+  for (const count of PEAK_RESOLUTIONS) {
+    const encoded = candidate.levels[count];
+    if (typeof encoded !== 'string') return null;
+    try {
+      if (atob(encoded).length !== count) return null;
+    } catch {
+      return null;
+    }
+  }
+
+  const levels: Record<string, string> = {};
+  for (const count of PEAK_RESOLUTIONS) levels[count] = candidate.levels[count];
+  return { v: PEAKS_VERSION, duration: candidate.duration, levels };
+}
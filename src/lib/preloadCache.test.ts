@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PreloadCache } from './preloadCache';
+
+// Just enough of HTMLAudioElement for the cache; tests fire the load events
+class FakeAudio {
+  static created: FakeAudio[] = [];
+  crossOrigin: string | null = null;
+  preload = '';
+  src = '';
+  oncanplaythrough: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    FakeAudio.created.push(this);
+  }
+
+  load() {}
+
+  removeAttribute(name: string) {
+    if (name === 'src') this.src = '';
+  }
+}
+
+const URL_A = 'https://cdn.example.com/a.webm';
+
+function finishLoading(url: string) {
+  const audio = FakeAudio.created.filter(a => a.src === url).pop();
+  audio?.oncanplaythrough?.();
+}
+
+describe('PreloadCache stats', () => {
+  beforeEach(() => {
+    FakeAudio.created = [];
+    vi.stubGlobal('Audio', FakeAudio);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('counts a miss, then a hit once the same URL is preloaded', () => {
+    const cache = new PreloadCache();
+
+    expect(cache.take(URL_A)).toBeUndefined();
+    cache.setWindow([URL_A]);
+    finishLoading(URL_A);
+    expect(cache.take(URL_A)).toBeDefined();
+
+    expect(cache.getStats()).toMatchObject({ misses: 1, hits: 1, partialHits: 0 });
+  });
+
+  it('counts a miss again after the entry is evicted', () => {
+    const cache = new PreloadCache();
+
+    cache.setWindow([URL_A]);
+    finishLoading(URL_A);
+    cache.setWindow([]);
+    expect(cache.take(URL_A)).toBeUndefined();
+
+    expect(cache.getStats()).toMatchObject({ misses: 1, hits: 0, evictions: 1 });
+  });
+});
@@ -0,0 +1,139 @@
+// Keeps audio elements loading for the snippets around the current one, so
+// the player can start a track from data that is already buffered.
+//
+// The feed calls setWindow() with the URLs it wants warm, nearest first, and
+// take() when a track starts. Anything outside the window is evicted.
+
+export interface PreloadStats {
+  // take() found a fully buffered element
+  hits: number;
+  // take() found an element that was still loading
+  partialHits: number;
+  // take() found nothing
+  misses: number;
+  evictions: number;
+  failures: number;
+}
+
+export interface PreloadCacheOptions {
+  // Elements allowed to load at the same time
+  maxConcurrent?: number;
+}
+
+type EntryStatus = 'queued' | 'loading' | 'ready' | 'error';
+
+interface Entry {
+  audio: HTMLAudioElement;
+  status: EntryStatus;
+}
+
+export class PreloadCache {
+  private entries = new Map<string, Entry>();
+  private queue: string[] = [];
+  private maxConcurrent: number;
+  private stats: PreloadStats = { hits: 0, partialHits: 0, misses: 0, evictions: 0, failures: 0 };
+
+  constructor({ maxConcurrent = 2 }: PreloadCacheOptions = {}) {
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  // Makes `urls` (nearest first) the set of tracks to keep warm.
+  setWindow(urls: string[]) {
+    const wanted = new Set(urls);
+
+    Array.from(this.entries.keys()).forEach(url => {
+      if (!wanted.has(url)) this.evict(url);
+    });
+
+    urls.forEach(url => {
+      const existing = this.entries.get(url);
+      // Failed entries get another go once they are back in the window
+      if (existing && existing.status !== 'error') return;
+      if (existing) this.evict(url, false);
+
+      const audio = new Audio();
+      audio.crossOrigin = 'anonymous';
+      audio.preload = 'auto';
+      this.entries.set(url, { audio, status: 'queued' });
+    });
+
+    this.queue = urls.filter(url => this.entries.get(url)?.status === 'queued');
+    this.pump();
+  }
+
+  // Hands over the cached element for `url`, if any. The caller owns it from
+  // then on; the cache forgets it.
+  take(url: string): HTMLAudioElement | undefined {
+    const entry = this.entries.get(url);
+    if (!entry || entry.status === 'error' || entry.status === 'queued') {
+      this.stats.misses++;
+      if (entry) this.evict(url, false);
+      console.log('PreloadCache: Miss', { url });
+      return undefined;
+    }
+
+    this.entries.delete(url);
+    this.detach(entry.audio);
+    if (entry.status === 'ready') this.stats.hits++;
+    else this.stats.partialHits++;
+    console.log('PreloadCache: Hit', { url, status: entry.status });
+    this.pump();
+    return entry.audio;
+  }
+
+  getStats(): PreloadStats {
+    return { ...this.stats };
+  }
+
+  clear() {
+    Array.from(this.entries.keys()).forEach(url => this.evict(url, false));
+    this.queue = [];
+  }
+
+  private pump() {
+    let loading = Array.from(this.entries.values()).filter(entry => entry.status === 'loading').length;
+
+    while (loading < this.maxConcurrent && this.queue.length) {
+      const url = this.queue.shift()!;
+      const entry = this.entries.get(url);
+      if (!entry || entry.status !== 'queued') continue;
+
+      entry.status = 'loading';
+      loading++;
+      console.log('PreloadCache: Starting preload', { url });
+
+      entry.audio.oncanplaythrough = () => {
+        entry.status = 'ready';
+        this.detach(entry.audio);
+        this.pump();
+      };
+      entry.audio.onerror = () => {
+        console.error('PreloadCache: Preload failed', { url });
+        entry.status = 'error';
+        this.stats.failures++;
+        this.detach(entry.audio);
+        this.pump();
+      };
+      entry.audio.src = url;
+      entry.audio.load();
+    }
+  }
+
+  private evict(url: string, count = true) {
+    const entry = this.entries.get(url);
+    if (!entry) return;
+    this.entries.delete(url);
+    this.detach(entry.audio);
+    entry.audio.removeAttribute('src');
+    entry.audio.load();
+    if (count) {
+      this.stats.evictions++;
+      console.log('PreloadCache: Evicted', { url });
+    }
+  }
+
+  private detach(audio: HTMLAudioElement) {
+    audio.oncanplaythrough = null;
+    audio.onerror = null;
+  }
+}
@@ -0,0 +1,90 @@
+import { supabase } from '@/lib/supabase';
+import { ensureSession } from '@/lib/auth';
+
+export interface Profile {
+  id: string;
+  handle: string;
+  avatar_color: string;
+  intro_snippet_id: string | null;
+  created_at: string;
+}
+
+// What the feed shows about a snippet's creator
+export type ProfileSummary = Pick<Profile, 'handle' | 'avatar_color'>;
+
+export const PROFILE_COLUMNS = 'id, handle, avatar_color, intro_snippet_id, created_at';
+
+// Mirrors the check constraints on public.profiles
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,20}$/;
+export const AVATAR_COLORS = ['#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899', '#ef4444'];
+
+export class HandleTakenError extends Error {
+  constructor(handle: string) {
+    super(`@${handle} is already taken.`);
+    this.name = 'HandleTakenError';
+  }
+}
+
+export async function fetchProfile(id: string): Promise<Profile | null> {
+  const { data, error } = await supabase.from('profiles').select(PROFILE_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as Profile | null;
+}
+
+export async function fetchProfileByHandle(handle: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('handle', handle.toLowerCase())
+    .maybeSingle();
+  if (error) throw error;
+  return data as Profile | null;
+}
+
+export type ProfileChanges = Partial<Pick<Profile, 'handle' | 'avatar_color' | 'intro_snippet_id'>>;
+
+// Updates the signed-in user's own profile.
+export async function updateProfile(changes: ProfileChanges): Promise<Profile> {
+  const { user } = await ensureSession();
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(changes)
+    .eq('id', user.id)
+    .select(PROFILE_COLUMNS)
+    .single();
+
+  if (error) {
+    // unique_violation on the handle
+    if (error.code === '23505' && changes.handle) throw new HandleTakenError(changes.handle);
+    throw error;
+  }
+  return data as Profile;
+}
+
+// Ids of everyone `userId` follows.
+export async function fetchFollowedIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase.from('follows').select('followee_id').eq('follower_id', userId);
+  if (error) throw error;
+  return data.map(row => row.followee_id as string);
+}
+
+export async function fetchFollowerCount(profileId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('follows')
+    .select('follower_id', { count: 'exact', head: true })
+    .eq('followee_id', profileId);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Follows or unfollows `profileId` as the signed-in user.
+export async function setFollowing(profileId: string, following: boolean): Promise<void> {
+  const { user } = await ensureSession();
+  const { error } = following
+    ? await supabase.from('follows').upsert(
+      { follower_id: user.id, followee_id: profileId },
+      { onConflict: 'follower_id,followee_id', ignoreDuplicates: true }
+    )
+    : await supabase.from('follows').delete().eq('follower_id', user.id).eq('followee_id', profileId);
+  if (error) throw error;
+}
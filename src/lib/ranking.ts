@@ -0,0 +1,103 @@
+import { supabase } from '@/lib/supabase';
+import { ensureSession } from '@/lib/auth';
+import { SNIPPET_COLUMNS, SNIPPET_PAGE_SIZE, SnippetRow, AudioSnippet, toAudioSnippet } from '@/lib/snippets';
+
+// Ranked listings, paged by position rather than by keyset because their
+// order isn't a column. Scoring for "For you" lives in the ranked_snippets
+// database function (supabase/migrations/20261019134000_feed_ranking.sql).
+//
+// Both rankings depend on the time: recency for "For you", the 24-hour
+// window for "Top today". Each feed session ranks as of one fixed moment
+// (`asOf`, an ISO timestamp), so pages don't skip or repeat snippets as the
+// clock moves, and the same page is the same GET request, which the service
+// worker can answer offline.
+
+export type RankingOptions =
+  // Same seed, same order, so a listener's feed doesn't reshuffle as it pages
+  | { mode: 'for-you'; seed: number; asOf: string }
+  | { mode: 'top-today'; asOf: string };
+
+export interface OffsetCursor {
+  offset: number;
+  asOf: string;
+}
+
+export interface RankedPage {
+  snippets: AudioSnippet[];
+  nextCursor: OffsetCursor | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A fresh seed for each feed load; fits the function's integer argument.
+export function createRankingSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+// Whole seconds, so the timestamp reads the same wherever it's written out
+export function createRankingTime(): string {
+  const now = new Date();
+  now.setMilliseconds(0);
+  return now.toISOString();
+}
+
+export async function fetchRankedPage(
+  cursor: OffsetCursor | null,
+  ranking: RankingOptions,
+  limit = SNIPPET_PAGE_SIZE
+): Promise<RankedPage> {
+  const offset = cursor?.offset ?? 0;
+  const asOf = cursor?.asOf ?? ranking.asOf;
+
+  const query = ranking.mode === 'for-you'
+    ? supabase
+      .rpc(
+        'ranked_snippets',
+        { p_seed: ranking.seed, p_limit: limit, p_offset: offset, p_now: asOf },
+        { get: true }
+      )
+      .select(SNIPPET_COLUMNS)
+    : supabase
+      .from('snippets')
+      .select(SNIPPET_COLUMNS)
+      .is('parent_id', null)
+      .eq('hidden', false)
+      .gte('created_at', new Date(Date.parse(asOf) - DAY_MS).toISOString())
+      .lte('created_at', asOf)
+      .order('like_count', { ascending: false })
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = data as unknown as SnippetRow[];
+  return {
+    snippets: rows.map(toAudioSnippet),
+    nextCursor: rows.length === limit ? { offset: offset + rows.length, asOf } : null,
+  };
+}
+
+// How a listen ended, as reported to the ranking's completion and skip rates
+export type PlayOutcome = 'complete' | 'partial' | 'skip';
+
+// Fraction of a clip heard before moving on that still counts as a skip
+const SKIP_FRACTION = 0.5;
+// Fraction heard that counts as listening to the end
+const COMPLETE_FRACTION = 0.9;
+
+export function classifyPlay(fractionHeard: number, reachedEnd: boolean): PlayOutcome {
+  if (reachedEnd || fractionHeard >= COMPLETE_FRACTION) return 'complete';
+  return fractionHeard < SKIP_FRACTION ? 'skip' : 'partial';
+}
+
+// Each listener counts once per snippet; a later outcome replaces theirs.
+export async function recordSnippetPlay(snippetId: string, outcome: PlayOutcome): Promise<void> {
+  await ensureSession();
+  const { error } = await supabase.rpc('record_snippet_play', {
+    p_snippet_id: snippetId,
+    p_outcome: outcome,
+  });
+  if (error) throw error;
+}
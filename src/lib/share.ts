@@ -0,0 +1,44 @@
+import type { AudioSnippet } from '@/lib/snippets';
+
+// Base for absolute links in server-rendered metadata, where there is no
+// window to read the origin from.
+export const SITE_URL = new URL(process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000');
+
+export function snippetPath(snippetId: string): string {
+  return `/s/${snippetId}`;
+}
+
+export function threadPath(snippetId: string): string {
+  return `${snippetPath(snippetId)}/replies`;
+}
+
+export function absoluteUrl(path: string): string {
+  return new URL(path, SITE_URL).toString();
+}
+
+export function snippetTitle(snippet: AudioSnippet): string {
+  return snippet.owner ? `@${snippet.owner.handle} on Wavelength` : 'A snippet on Wavelength';
+}
+
+export type ShareResult = 'shared' | 'copied' | 'cancelled';
+
+// Opens the system share sheet where there is one, otherwise copies the
+// snippet's link to the clipboard.
+export async function shareSnippet(snippet: AudioSnippet): Promise<ShareResult> {
+  const url = new URL(snippetPath(snippet.id), window.location.origin).toString();
+  const title = snippetTitle(snippet);
+
+  if (typeof navigator.share === 'function') {
+    try {
+      await navigator.share({ title, url });
+      return 'shared';
+    } catch (error) {
+      // Dismissing the share sheet rejects with AbortError
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      console.error('Share: Web Share failed, copying the link instead', error);
+    }
+  }
+
+  await navigator.clipboard.writeText(url);
+  return 'copied';
+}
@@ -0,0 +1,23 @@
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { SNIPPETS_BUCKET, SnippetRow } from '@/lib/snippets';
+
+// Storage cleanup for deleted snippets. Server-only, like supabaseAdmin.
+
+export type StoredAudio = Pick<SnippetRow, 'storage_path' | 'alt_renditions'>;
+
+export const STORED_AUDIO_COLUMNS = 'storage_path, alt_renditions';
+
+// Removes every rendition of the given snippets. The rows are already gone,
+// so a leftover object is only wasted space; failures are logged, not thrown.
+export async function removeStoredAudio(snippets: StoredAudio[], context: string): Promise<void> {
+  const paths = snippets.flatMap(stored => [
+    stored.storage_path,
+    ...(stored.alt_renditions ?? []).map(rendition => rendition.storage_path),
+  ]);
+  if (!paths.length) return;
+
+  const { error } = await supabaseAdmin.storage.from(SNIPPETS_BUCKET).remove(paths);
+  if (error) {
+    console.error(`${context}: Storage cleanup failed`, { paths, error });
+  }
+}
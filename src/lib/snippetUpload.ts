@@ -0,0 +1,111 @@
+import type { AudioSnippet } from '@/lib/snippets';
+import type { AudioContainer } from '@/lib/audioContainer';
+import type { WaveformPeaks } from '@/lib/peaks';
+import type { VisualizerStyle } from '@/lib/visualizers';
+import { getAccessToken } from '@/lib/auth';
+
+// Limits enforced by the upload route. Shared with the client so the
+// recorder can stop before a clip would be rejected.
+export const MIN_SNIPPET_SECONDS = 0.5;
+export const MAX_SNIPPET_SECONDS = 60;
+// Room for a full-length clip trimmed to 24 kHz mono WAV in the review step
+export const MAX_SNIPPET_BYTES = 3 * 1024 * 1024;
+
+// Accepted content types, the container each must hold and the extension
+// the stored object gets
+export const SNIPPET_CONTENT_TYPES: Record<string, { container: AudioContainer; extension: string }> = {
+  'audio/webm': { container: 'webm', extension: 'webm' },
+  'audio/ogg': { container: 'ogg', extension: 'ogg' },
+  'audio/mp4': { container: 'mp4', extension: 'm4a' },
+  'audio/wav': { container: 'wav', extension: 'wav' },
+  'audio/x-wav': { container: 'wav', extension: 'wav' },
+};
+
+export type SnippetUploadErrorCode =
+  | 'unauthorized'
+  | 'banned'
+  | 'missing_file'
+  | 'unsupported_type'
+  | 'empty_clip'
+  | 'too_large'
+  | 'too_short'
+  | 'too_long'
+  | 'undecodable'
+  | 'invalid_peaks'
+  | 'invalid_style'
+  | 'invalid_parent'
+  | 'invalid_tags'
+  | 'invalid_captions'
+  | 'storage_failed'
+  | 'network_error'
+  | 'server_error';
+
+export interface SnippetUploadErrorBody {
+  error: {
+    code: SnippetUploadErrorCode;
+    message: string;
+  };
+}
+
+export interface SnippetUploadResponse {
+  snippet: AudioSnippet;
+}
+
+export class SnippetUploadError extends Error {
+  constructor(public code: SnippetUploadErrorCode, message: string) {
+    super(message);
+    this.name = 'SnippetUploadError';
+  }
+}
+
+// Strips parameters such as `;codecs=opus` from a content type.
+export function baseContentType(type: string): string {
+  return type.split(';')[0].trim().toLowerCase();
+}
+
+export interface SnippetUploadOptions {
+  peaks?: WaveformPeaks | null;
+  visualStyle?: VisualizerStyle | null;
+  // Publishes the recording as a reply to this snippet
+  parentId?: string | null;
+  // Normalized hashtags; see src/lib/tags.ts
+  tags?: string[];
+  // WebVTT written by the uploader; without it the server may transcribe
+  captions?: string | null;
+}
+
+export async function uploadSnippet(
+  recording: Blob,
+  { peaks, visualStyle, parentId, tags, captions }: SnippetUploadOptions = {}
+): Promise<AudioSnippet> {
+  const extension = SNIPPET_CONTENT_TYPES[baseContentType(recording.type)]?.extension ?? 'bin';
+  const form = new FormData();
+  form.append('file', recording, `recording.${extension}`);
+  if (peaks) form.append('peaks', JSON.stringify(peaks));
+  if (visualStyle) form.append('visual_style', visualStyle);
+  if (parentId) form.append('parent_id', parentId);
+  tags?.forEach(tag => form.append('tags', tag));
+  if (captions) form.append('captions', captions);
+
+  let response: Response;
+  try {
+    response = await fetch('/api/snippets', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await getAccessToken()}` },
+      body: form,
+    });
+  } catch {
+    throw new SnippetUploadError('network_error', 'Could not reach the server. Check your connection.');
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = (body as SnippetUploadErrorBody | null)?.error;
+    throw new SnippetUploadError(
+      error?.code ?? 'server_error',
+      error?.message ?? 'Upload failed. Please try again.'
+    );
+  }
+
+  return (body as SnippetUploadResponse).snippet;
+}
@@ -0,0 +1,261 @@
+import { supabase } from '@/lib/supabase';
+import { WaveformPeaks } from '@/lib/peaks';
+import type { VisualizerStyle } from '@/lib/visualizers';
+import { ensureSession, getAccessToken } from '@/lib/auth';
+import type { ProfileSummary } from '@/lib/profiles';
+
+export const SNIPPETS_BUCKET = 'audio-snippets';
+
+export interface AudioSource {
+  url: string;
+  mimeType: string;
+}
+
+export interface AudioSnippet {
+  id: string;
+  // Source the player uses; see resolvePlayableSnippet in audioFormats
+  url: string;
+  // Every stored encoding of the clip, original first
+  sources: AudioSource[];
+  name: string;
+  created_at: string;
+  like_count: number;
+  peaks: WaveformPeaks | null;
+  // Uploader's suggested visualizer, if they picked one
+  visual_style: VisualizerStyle | null;
+  // Null for snippets recorded before accounts existed
+  owner_id: string | null;
+  owner: ProfileSummary | null;
+  // Set on replies; threads are one level deep, so this is always a top-level snippet
+  parent_id: string | null;
+  reply_count: number;
+  // Hidden after too many reports; only its owner and moderators see it
+  hidden: boolean;
+  // Hashtags without the #; see src/lib/tags.ts
+  tags: string[];
+  // WebVTT caption track, if the snippet has one; see src/lib/webvtt.ts
+  captions: string | null;
+  captions_source: CaptionsSource | null;
+  liked?: boolean;
+}
+
+// Who wrote a snippet's captions
+export type CaptionsSource = 'uploader' | 'transcription';
+
+export interface SnippetRow {
+  id: string;
+  storage_path: string;
+  created_at: string;
+  like_count: number;
+  mime_type: string;
+  alt_renditions: { storage_path: string; mime_type: string }[] | null;
+  peaks: WaveformPeaks | null;
+  visual_style: VisualizerStyle | null;
+  owner_id: string | null;
+  owner: ProfileSummary | null;
+  parent_id: string | null;
+  reply_count: number;
+  hidden: boolean;
+  tags: string[];
+  captions: string | null;
+  captions_source: CaptionsSource | null;
+}
+
+// profiles.intro_snippet_id is a second link between the two tables, so the
+// owner embed has to name its foreign key
+export const SNIPPET_COLUMNS =
+  'id, storage_path, created_at, like_count, mime_type, alt_renditions, peaks, visual_style, owner_id, ' +
+  'parent_id, reply_count, hidden, tags, captions, captions_source, ' +
+  'owner:profiles!snippets_owner_profile_fkey(handle, avatar_color)';
+
+function publicUrl(storagePath: string): string {
+  return supabase.storage.from(SNIPPETS_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+}
+
+export function toAudioSnippet(row: SnippetRow): AudioSnippet {
+  const sources = [
+    { storage_path: row.storage_path, mime_type: row.mime_type },
+    ...(row.alt_renditions ?? []),
+  ].map(rendition => ({ url: publicUrl(rendition.storage_path), mimeType: rendition.mime_type }));
+
+  return {
+    id: row.id,
+    url: sources[0].url,
+    sources,
+    name: row.storage_path,
+    created_at: row.created_at,
+    like_count: row.like_count,
+    peaks: row.peaks,
+    visual_style: row.visual_style,
+    owner_id: row.owner_id,
+    owner: row.owner ?? null,
+    parent_id: row.parent_id ?? null,
+    reply_count: row.reply_count ?? 0,
+    hidden: row.hidden ?? false,
+    tags: row.tags ?? [],
+    captions: row.captions ?? null,
+    captions_source: row.captions_source ?? null,
+  };
+}
+
+// A playback position or length as m:ss
+export function formatTime(seconds: number): string {
+  const whole = Math.max(Math.floor(seconds), 0);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+export const SNIPPET_PAGE_SIZE = 20;
+
+// Position in the listing: newest first, or oldest first within a thread. `id` breaks ties between snippets
+// created in the same instant so no row is skipped or repeated across pages.
+export interface SnippetCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface SnippetPage {
+  snippets: AudioSnippet[];
+  nextCursor: SnippetCursor | null;
+}
+
+export interface SnippetPageOptions {
+  limit?: number;
+  // Only snippets recorded by these users
+  ownerIds?: string[];
+  // Replies are left out unless asked for
+  includeReplies?: boolean;
+  // Only the replies to this snippet, oldest first
+  parentId?: string;
+  // The owner's own hidden snippets are left out unless asked for
+  includeHidden?: boolean;
+  // Only snippets carrying this tag
+  tag?: string;
+}
+
+export async function fetchSnippetPage(
+  cursor: SnippetCursor | null = null,
+  { limit = SNIPPET_PAGE_SIZE, ownerIds, includeReplies = false, parentId, includeHidden = false, tag }: SnippetPageOptions = {}
+): Promise<SnippetPage> {
+  if (ownerIds && !ownerIds.length) return { snippets: [], nextCursor: null };
+
+  let query = supabase
+    .from('snippets')
+    .select(SNIPPET_COLUMNS);
+
+  if (ownerIds) {
+    query = query.in('owner_id', ownerIds);
+  }
+
+  if (tag) {
+    query = query.contains('tags', [tag]);
+  }
+
+  if (parentId) {
+    query = query.eq('parent_id', parentId);
+  } else if (!includeReplies) {
+    query = query.is('parent_id', null);
+  }
+
+  // Row-level security already hides reported snippets from everyone else
+  if (!includeHidden) {
+    query = query.eq('hidden', false);
+  }
+
+  const ascending = !!parentId;
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    query = query.or(
+      `created_at.${op}."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.${op}.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit);
+  if (error) throw error;
+
+  const rows = data as unknown as SnippetRow[];
+  const last = rows[rows.length - 1];
+
+  return {
+    snippets: rows.map(toAudioSnippet),
+    nextCursor: rows.length === limit && last ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
+
+export async function fetchSnippet(id: string): Promise<AudioSnippet | null> {
+  const { data, error } = await supabase
+    .from('snippets')
+    .select(SNIPPET_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toAudioSnippet(data as unknown as SnippetRow) : null;
+}
+
+export async function fetchLikedSnippetIds(userId: string, snippetIds: string[]): Promise<Set<string>> {
+  if (!snippetIds.length) return new Set();
+
+  const { data, error } = await supabase
+    .from('snippet_likes')
+    .select('snippet_id')
+    .eq('listener_id', userId)
+    .in('snippet_id', snippetIds);
+
+  if (error) throw error;
+  return new Set(data.map(row => row.snippet_id as string));
+}
+
+// Likes or unlikes as the signed-in user. Returns the snippet's like count
+// as stored after the change.
+export async function setSnippetLiked(snippetId: string, liked: boolean): Promise<number> {
+  await ensureSession();
+  const { data, error } = await supabase.rpc('set_snippet_like', {
+    p_snippet_id: snippetId,
+    p_liked: liked,
+  });
+
+  if (error) throw error;
+  return data as number;
+}
+
+// Deletes one of the signed-in user's own snippets, audio included.
+export async function deleteSnippet(snippetId: string): Promise<void> {
+  const response = await fetch(`/api/snippets/${snippetId}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${await getAccessToken()}` },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message ?? 'Could not delete the snippet.');
+  }
+}
+
+// Calls `onInsert` for every snippet row created after subscribing.
+// Returns an unsubscribe function.
+export function subscribeToNewSnippets(onInsert: (snippet: AudioSnippet) => void): () => void {
+  const channel = supabase
+    .channel('snippets:inserts')
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'snippets' },
+      payload => {
+        // Change payloads carry the bare row; re-read it to get the owner's profile
+        const row = payload.new as SnippetRow;
+        fetchSnippet(row.id)
+          .then(snippet => onInsert(snippet ?? toAudioSnippet({ ...row, owner: null })))
+          .catch(error => {
+            console.error('Snippets: Failed to load new snippet', error);
+            onInsert(toAudioSnippet({ ...row, owner: null }));
+          });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
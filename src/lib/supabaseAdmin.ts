@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client for route handlers. Bypasses row-level security, so it
+// must never be imported from client components.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Supabase admin environment variables are not set:', {
+    url: !!supabaseUrl,
+    serviceRoleKey: !!serviceRoleKey
+  });
+  throw new Error('Missing Supabase admin configuration');
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase';
+
+// Hashtags an uploader attaches at publish time. Stored without the leading
+// # in snippets.tags; the database checks the same format and limit.
+
+export const MAX_TAGS = 5;
+export const MAX_TAG_LENGTH = 32;
+
+export const TAG_PATTERN = /^[a-z0-9_]{1,32}$/;
+
+export interface TrendingTag {
+  tag: string;
+  snippet_count: number;
+}
+
+// Lowercases and drops a leading #; returns null for anything that isn't a
+// valid tag.
+export function normalizeTag(raw: string): string | null {
+  const tag = raw.trim().replace(/^#/, '').toLowerCase();
+  return TAG_PATTERN.test(tag) ? tag : null;
+}
+
+// Tags typed as "#music morning, field_recording": separated by spaces or
+// commas, duplicates dropped. Invalid entries come back in `invalid`.
+export function parseTagInput(input: string): { tags: string[]; invalid: string[] } {
+  const tags: string[] = [];
+  const invalid: string[] = [];
+  for (const part of input.split(/[\s,]+/).filter(Boolean)) {
+    const tag = normalizeTag(part);
+    if (!tag) invalid.push(part);
+    else if (!tags.includes(tag)) tags.push(tag);
+  }
+  return { tags, invalid };
+}
+
+export function tagPath(tag: string): string {
+  return `/t/${encodeURIComponent(tag)}`;
+}
+
+export async function fetchTrendingTags(limit = 10): Promise<TrendingTag[]> {
+  const { data, error } = await supabase.rpc('trending_tags', { p_limit: limit });
+  if (error) throw error;
+  // bigint counts can arrive as strings
+  return (data as TrendingTag[]).map(row => ({ tag: row.tag, snippet_count: Number(row.snippet_count) }));
+}
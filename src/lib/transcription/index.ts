@@ -0,0 +1,26 @@
+import { TranscriptionProvider, TranscriptionProviderFactory } from './types';
+import { createStubTranscriptionProvider } from './stub';
+
+export type { TranscriptionInput, TranscriptionProvider, TranscriptionProviderFactory } from './types';
+
+// Providers the upload route can use to caption clips the uploader didn't.
+// Server-only: real providers hold API keys. Add one here and select it with
+// TRANSCRIPTION_PROVIDER.
+export const TRANSCRIPTION_PROVIDERS: Record<string, TranscriptionProviderFactory> = {
+  stub: createStubTranscriptionProvider,
+};
+
+let provider: TranscriptionProvider | null | undefined;
+
+// The configured provider, or null when automatic captions are off.
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.TRANSCRIPTION_PROVIDER;
+  const factory = name ? TRANSCRIPTION_PROVIDERS[name] : undefined;
+  if (name && !factory) {
+    console.error('Transcription: Unknown provider, captions will not be generated', { name });
+  }
+  provider = factory ? factory() : null;
+  return provider;
+}
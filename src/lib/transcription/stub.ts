@@ -0,0 +1,18 @@
+import type { TranscriptionProviderFactory } from './types';
+
+// Seconds per placeholder cue
+const CUE_SECONDS = 3;
+
+// For development: no speech recognition, just numbered placeholder cues
+// across the clip so captions can be seen in the feed without an API key.
+export const createStubTranscriptionProvider: TranscriptionProviderFactory = () => ({
+  name: 'stub',
+  async transcribe({ duration }) {
+    const count = Math.max(Math.ceil(duration / CUE_SECONDS), 1);
+    return Array.from({ length: count }, (_, i) => ({
+      start: i * CUE_SECONDS,
+      end: Math.min((i + 1) * CUE_SECONDS, duration),
+      text: `[Placeholder caption ${i + 1} of ${count}]`,
+    })).filter(cue => cue.end > cue.start);
+  },
+});
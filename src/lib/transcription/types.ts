@@ -0,0 +1,18 @@
+import type { CaptionCue } from '@/lib/webvtt';
+
+// What the upload route knows about a clip when it asks for a transcript
+export interface TranscriptionInput {
+  audio: Uint8Array;
+  contentType: string;
+  // Seconds, as read from the container
+  duration: number;
+}
+
+export interface TranscriptionProvider {
+  // Shown in logs
+  name: string;
+  // Cues for the clip, or an empty list when nothing was said
+  transcribe: (input: TranscriptionInput) => Promise<CaptionCue[]>;
+}
+
+export type TranscriptionProviderFactory = () => TranscriptionProvider;
@@ -0,0 +1,165 @@
+// Recordings published while offline wait in IndexedDB and are uploaded once
+// the connection returns. A recording the server rejects stays in the queue,
+// marked with why, until the listener retries or discards it, so a take is
+// never lost without them knowing.
+
+import type { AudioSnippet } from '@/lib/snippets';
+import {
+  SnippetUploadError,
+  SnippetUploadErrorCode,
+  SnippetUploadOptions,
+  uploadSnippet,
+} from '@/lib/snippetUpload';
+
+const DB_NAME = 'wavelength';
+const DB_VERSION = 1;
+const STORE = 'pending-uploads';
+
+// Failures worth retrying later; anything else the server will reject again
+const RETRYABLE_CODES = new Set<SnippetUploadErrorCode>(['network_error', 'storage_failed', 'server_error']);
+
+interface QueuedUpload {
+  id?: number;
+  recording: Blob;
+  options: SnippetUploadOptions;
+  queuedAt: string;
+  // Set when the server rejected it; skipped by flushes until retried
+  failure?: UploadFailure;
+}
+
+export interface UploadFailure {
+  code: SnippetUploadErrorCode;
+  message: string;
+}
+
+export interface FailedUpload {
+  id: number;
+  recording: Blob;
+  queuedAt: string;
+  failure: UploadFailure;
+}
+
+export interface UploadQueueState {
+  // Waiting for the connection
+  pending: number;
+  // Rejected by the server, oldest first
+  failed: FailedUpload[];
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const listeners = new Set<(state: UploadQueueState) => void>();
+
+async function notifyListeners() {
+  const state = await getUploadQueueState();
+  listeners.forEach(listener => listener(state));
+}
+
+export async function enqueueUpload(recording: Blob, options: SnippetUploadOptions = {}) {
+  const upload: QueuedUpload = { recording, options, queuedAt: new Date().toISOString() };
+  await withStore('readwrite', store => store.add(upload));
+  console.log('UploadQueue: Recording queued until back online');
+  await notifyListeners();
+}
+
+export async function getUploadQueueState(): Promise<UploadQueueState> {
+  const uploads = await withStore<QueuedUpload[]>('readonly', store => store.getAll());
+  return {
+    pending: uploads.filter(upload => !upload.failure).length,
+    failed: uploads.flatMap(({ id, recording, queuedAt, failure }) =>
+      failure ? [{ id: id!, recording, queuedAt, failure }] : []
+    ),
+  };
+}
+
+// Calls `listener` with the queue's state whenever it changes. Returns an
+// unsubscribe function.
+export function subscribeToUploadQueue(listener: (state: UploadQueueState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+let activeFlush: Promise<void> | null = null;
+// Everyone waiting on the current run hears about each upload
+const uploadedCallbacks = new Set<(snippet: AudioSnippet) => void>();
+
+// Uploads waiting recordings oldest first, stopping at the first one that
+// fails for a reason that may clear up later. Overlapping calls share a run.
+export function flushUploadQueue(onUploaded?: (snippet: AudioSnippet) => void): Promise<void> {
+  if (onUploaded) uploadedCallbacks.add(onUploaded);
+  if (!activeFlush) {
+    activeFlush = runFlush().finally(() => {
+      activeFlush = null;
+      uploadedCallbacks.clear();
+    });
+  }
+  return activeFlush;
+}
+
+// Puts a rejected recording back in line and tries the queue again.
+export async function retryUpload(id: number, onUploaded?: (snippet: AudioSnippet) => void) {
+  const upload = await withStore<QueuedUpload | undefined>('readonly', store => store.get(id));
+  if (!upload) return;
+  delete upload.failure;
+  await withStore('readwrite', store => store.put(upload));
+  await notifyListeners();
+  // A run already in progress may have passed this recording by
+  if (activeFlush) await activeFlush.catch(() => {});
+  await flushUploadQueue(onUploaded);
+}
+
+export async function discardUpload(id: number) {
+  await withStore('readwrite', store => store.delete(id));
+  console.log('UploadQueue: Discarded rejected recording', { id });
+  await notifyListeners();
+}
+
+async function runFlush() {
+  const uploads = await withStore<QueuedUpload[]>('readonly', store => store.getAll());
+  const waiting = uploads.filter(upload => !upload.failure);
+  if (!waiting.length) return;
+  console.log('UploadQueue: Flushing', { count: waiting.length });
+
+  for (const upload of waiting) {
+    try {
+      const snippet = await uploadSnippet(upload.recording, upload.options);
+      await withStore('readwrite', store => store.delete(upload.id!));
+      await notifyListeners();
+      uploadedCallbacks.forEach(callback => callback(snippet));
+    } catch (error) {
+      if (error instanceof SnippetUploadError && !RETRYABLE_CODES.has(error.code)) {
+        console.error('UploadQueue: Server rejected recording, keeping it for the listener', error);
+        const failed: QueuedUpload = { ...upload, failure: { code: error.code, message: error.message } };
+        await withStore('readwrite', store => store.put(failed));
+        await notifyListeners();
+        continue;
+      }
+      console.log('UploadQueue: Upload still failing, will retry later', error);
+      return;
+    }
+  }
+}
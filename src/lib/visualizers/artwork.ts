@@ -0,0 +1,98 @@
+import { readPeaks, WaveformPeaks } from '@/lib/peaks';
+import { VISUALIZER_STYLES, VisualizerStyle } from './index';
+
+// Artwork is played through this many frames, so renderers that ease or
+// scroll (the black hole, the spectrogram) end up with a full picture
+const ARTWORK_FRAMES = 256;
+const FRAME_MS = 16;
+// Match the engine's analyser (fftSize 2048)
+const FREQUENCY_BINS = 1024;
+const TIME_DOMAIN_SAMPLES = 2048;
+const WAVE_CYCLES = 8;
+// Stands in for the clip's loudness when it has no stored peaks
+const DEFAULT_LEVEL = 0.5;
+// Browsers without requestIdleCallback get a frame per timeout instead
+const FALLBACK_SLICE_MS = 8;
+// Enough for swiping back and forth through the feed
+const MAX_CACHED_ARTWORK = 30;
+
+// Keyed by snippet id, style and size; oldest first
+const artworkCache = new Map<string, Promise<string>>();
+
+// A still of a snippet's visualizer for places that can't animate, such as
+// the lock screen. There is no audio to analyse, so the stored peaks stand in
+// for it: each frame is fed a level from the next slice of the clip. Frames
+// are drawn while the browser is idle so playback and swiping stay smooth,
+// and each snippet and style is only drawn once. Resolves to a PNG data URL.
+export function drawVisualizerArtwork(
+  snippetId: string,
+  style: VisualizerStyle,
+  peaks: WaveformPeaks | null,
+  size = 512
+): Promise<string> {
+  const key = `${snippetId}:${style}:${size}`;
+  let artwork = artworkCache.get(key);
+  if (!artwork) {
+    artwork = renderArtwork(style, peaks, size);
+    artworkCache.set(key, artwork);
+    if (artworkCache.size > MAX_CACHED_ARTWORK) {
+      artworkCache.delete(artworkCache.keys().next().value!);
+    }
+  }
+  return artwork;
+}
+
+function renderArtwork(style: VisualizerStyle, peaks: WaveformPeaks | null, size: number): Promise<string> {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve('');
+
+  const renderer = VISUALIZER_STYLES[style].create();
+  const levels = peaks ? readPeaks(peaks, ARTWORK_FRAMES) : [];
+  const frequencyData = new Uint8Array(FREQUENCY_BINS);
+  const timeDomainData = new Uint8Array(TIME_DOMAIN_SAMPLES);
+
+  const drawFrame = (frame: number) => {
+    const level = levels.length
+      ? levels[Math.floor((frame / ARTWORK_FRAMES) * levels.length)]
+      : DEFAULT_LEVEL;
+    // Voice-like spectrum: loudest in the low bins, tailing off upwards
+    for (let i = 0; i < FREQUENCY_BINS; i++) {
+      frequencyData[i] = Math.round(255 * level * Math.max(1 - i / (FREQUENCY_BINS / 2), 0));
+    }
+    for (let i = 0; i < TIME_DOMAIN_SAMPLES; i++) {
+      timeDomainData[i] = Math.round(128 + 127 * level * Math.sin((i / TIME_DOMAIN_SAMPLES) * WAVE_CYCLES * Math.PI * 2));
+    }
+    renderer.render({ canvas, ctx, frequencyData, timeDomainData, now: frame * FRAME_MS });
+  };
+
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, size, size);
+
+  return new Promise(resolve => {
+    let frame = 0;
+    const drawSlice = (deadline?: IdleDeadline) => {
+      // At least one frame per slice, so a busy page still gets there
+      do {
+        drawFrame(frame++);
+      } while (frame < ARTWORK_FRAMES && deadline && deadline.timeRemaining() > 1);
+
+      if (frame < ARTWORK_FRAMES) {
+        scheduleSlice(drawSlice);
+      } else {
+        resolve(canvas.toDataURL('image/png'));
+      }
+    };
+    scheduleSlice(drawSlice);
+  });
+}
+
+function scheduleSlice(callback: (deadline?: IdleDeadline) => void) {
+  if (typeof window.requestIdleCallback === 'function') {
+    window.requestIdleCallback(callback);
+  } else {
+    window.setTimeout(callback, FALLBACK_SLICE_MS);
+  }
+}
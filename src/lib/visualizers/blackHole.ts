@@ -0,0 +1,74 @@
+import { VisualizerRendererFactory } from './types';
+
+// Drifting radial gradient around a black centre that pulses on track change.
+export const createBlackHoleRenderer: VisualizerRendererFactory = () => {
+  const gradientCenter = { x: 0, y: 0, targetX: 0, targetY: 0 };
+  let blackHoleRadius = 35;
+  let targetBlackHoleRadius = 35;
+
+  return {
+    onTrackChange: () => {
+      targetBlackHoleRadius = 5;
+      setTimeout(() => {
+        targetBlackHoleRadius = 35;
+      }, 100);
+    },
+
+    render: ({ canvas, ctx, frequencyData, now }) => {
+      const centerX = canvas.width / 2;
+      const centerY = canvas.height / 2;
+
+      // Clear canvas
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      // Calculate average frequency
+      let sum = 0;
+      for (let i = 0; i < frequencyData.length; i++) {
+        sum += frequencyData[i];
+      }
+      const average = sum / frequencyData.length;
+      const normalizedAverage = average / 256;
+
+      // Update black hole radius with smooth animation
+      blackHoleRadius += (targetBlackHoleRadius - blackHoleRadius) * 0.1;
+
+      // Update gradient center based on audio
+      const angle = now * 0.001;
+      const radius = 50 + normalizedAverage * 50;
+      gradientCenter.targetX = centerX + Math.cos(angle) * radius;
+      gradientCenter.targetY = centerY + Math.sin(angle) * radius;
+      gradientCenter.x += (gradientCenter.targetX - gradientCenter.x) * 0.02;
+      gradientCenter.y += (gradientCenter.targetY - gradientCenter.y) * 0.02;
+
+      // Draw outer gradient
+      const gradient = ctx.createRadialGradient(
+        gradientCenter.x,
+        gradientCenter.y,
+        blackHoleRadius,
+        centerX,
+        centerY,
+        canvas.height * (0.4 + normalizedAverage * 0.2)
+      );
+
+      const hue1 = (now * 0.02) % 360;
+      const hue2 = (hue1 + 60) % 360;
+      const hue3 = (hue1 + 180) % 360;
+
+      gradient.addColorStop(0, `hsla(${hue1}, 70%, 50%, ${0.4 + normalizedAverage * 0.3})`);
+      gradient.addColorStop(0.5, `hsla(${hue2}, 70%, 50%, ${0.2 + normalizedAverage * 0.2})`);
+      gradient.addColorStop(1, `hsla(${hue3}, 70%, 50%, ${0.1 + normalizedAverage * 0.1})`);
+
+      ctx.globalCompositeOperation = 'screen';
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      // Draw black hole
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = 'black';
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, blackHoleRadius, 0, Math.PI * 2);
+      ctx.fill();
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import { VisualizerRendererFactory } from './types';
+import { createBlackHoleRenderer } from './blackHole';
+import { createSpectrumBarsRenderer } from './spectrumBars';
+import { createOscilloscopeRenderer } from './oscilloscope';
+import { createSpectrogramRenderer } from './spectrogram';
+
+export type { VisualizerFrame, VisualizerRenderer, VisualizerRendererFactory } from './types';
+
+export const VISUALIZER_STYLES = {
+  'black-hole': { label: 'Black hole', create: createBlackHoleRenderer },
+  'spectrum-bars': { label: 'Spectrum', create: createSpectrumBarsRenderer },
+  oscilloscope: { label: 'Oscilloscope', create: createOscilloscopeRenderer },
+  spectrogram: { label: 'Spectrogram', create: createSpectrogramRenderer },
+} satisfies Record<string, { label: string; create: VisualizerRendererFactory }>;
+
+export type VisualizerStyle = keyof typeof VISUALIZER_STYLES;
+
+export const DEFAULT_VISUALIZER_STYLE: VisualizerStyle = 'black-hole';
+
+export function isVisualizerStyle(value: unknown): value is VisualizerStyle {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VISUALIZER_STYLES, value);
+}
+
+const PREFERENCE_KEY = 'wavelength:visualizer-style';
+
+// The listener's explicit choice, or null to follow each snippet's suggestion.
+export function loadVisualizerPreference(): VisualizerStyle | null {
+  const stored = window.localStorage.getItem(PREFERENCE_KEY);
+  return isVisualizerStyle(stored) ? stored : null;
+}
+
+export function saveVisualizerPreference(style: VisualizerStyle | null) {
+  if (style) window.localStorage.setItem(PREFERENCE_KEY, style);
+  else window.localStorage.removeItem(PREFERENCE_KEY);
+}
@@ -0,0 +1,27 @@
+import { VisualizerRendererFactory } from './types';
+
+// The raw waveform as a single glowing line.
+export const createOscilloscopeRenderer: VisualizerRendererFactory = () => ({
+  render: ({ canvas, ctx, timeDomainData, now }) => {
+    // Translucent fill leaves a short trail behind the line
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const centerY = canvas.height / 2;
+    const amplitude = canvas.height * 0.3;
+    const step = canvas.width / (timeDomainData.length - 1);
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = `hsl(${(now * 0.02) % 360}, 70%, 65%)`;
+    ctx.shadowColor = ctx.strokeStyle;
+    ctx.shadowBlur = 12;
+    ctx.beginPath();
+    for (let i = 0; i < timeDomainData.length; i++) {
+      const y = centerY + ((timeDomainData[i] - 128) / 128) * amplitude;
+      if (i === 0) ctx.moveTo(0, y);
+      else ctx.lineTo(i * step, y);
+    }
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  },
+});
@@ -0,0 +1,26 @@
+import { VisualizerRendererFactory } from './types';
+
+// Pixels the history moves left per frame
+const SCROLL_SPEED = 2;
+
+// Scrolling time/frequency heat map: newest column on the right, low
+// frequencies at the bottom.
+export const createSpectrogramRenderer: VisualizerRendererFactory = () => ({
+  render: ({ canvas, ctx, frequencyData }) => {
+    // Shift what has been drawn so far to make room for the new column
+    ctx.drawImage(canvas, -SCROLL_SPEED, 0);
+
+    const x = canvas.width - SCROLL_SPEED;
+    // Voice sits in the lower part of the spectrum; skip the empty top half
+    const usableBins = Math.floor(frequencyData.length / 2);
+    const binHeight = canvas.height / usableBins;
+
+    for (let i = 0; i < usableBins; i++) {
+      const value = frequencyData[i] / 255;
+      ctx.fillStyle = value > 0.02
+        ? `hsl(${260 - value * 220}, 80%, ${value * 60}%)`
+        : 'black';
+      ctx.fillRect(x, canvas.height - (i + 1) * binHeight, SCROLL_SPEED, Math.ceil(binHeight));
+    }
+  },
+});
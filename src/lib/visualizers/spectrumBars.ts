@@ -0,0 +1,37 @@
+import { VisualizerRendererFactory } from './types';
+
+const BAR_COUNT = 48;
+
+// Mirrored frequency bars around the horizontal centre line.
+export const createSpectrumBarsRenderer: VisualizerRendererFactory = () => {
+  // Smoothed bar heights, so bars fall back gently instead of flickering
+  const levels = new Array<number>(BAR_COUNT).fill(0);
+
+  return {
+    render: ({ canvas, ctx, frequencyData, now }) => {
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      // Voice sits in the lower part of the spectrum; skip the empty top half
+      const usableBins = Math.floor(frequencyData.length / 2);
+      const binsPerBar = Math.max(Math.floor(usableBins / BAR_COUNT), 1);
+      const slot = canvas.width / BAR_COUNT;
+      const barWidth = slot * 0.6;
+      const centerY = canvas.height / 2;
+      const maxHeight = canvas.height * 0.35;
+      const hue = (now * 0.02) % 360;
+
+      for (let i = 0; i < BAR_COUNT; i++) {
+        let sum = 0;
+        for (let j = 0; j < binsPerBar; j++) sum += frequencyData[i * binsPerBar + j];
+        const target = sum / binsPerBar / 255;
+        levels[i] = target > levels[i] ? target : levels[i] * 0.9 + target * 0.1;
+
+        const height = Math.max(levels[i] * maxHeight, 2);
+        const x = i * slot + (slot - barWidth) / 2;
+        ctx.fillStyle = `hsla(${(hue + i * 3) % 360}, 70%, 60%, ${0.5 + levels[i] * 0.5})`;
+        ctx.fillRect(x, centerY - height, barWidth, height * 2);
+      }
+    },
+  };
+};
@@ -0,0 +1,21 @@
+// One animation frame's worth of input for a renderer
+export interface VisualizerFrame {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  // AnalyserNode.getByteFrequencyData, frequencyBinCount entries of 0-255
+  frequencyData: Uint8Array;
+  // AnalyserNode.getByteTimeDomainData, fftSize entries centred on 128
+  timeDomainData: Uint8Array;
+  // Milliseconds since the epoch, for time-based motion
+  now: number;
+}
+
+export interface VisualizerRenderer {
+  render: (frame: VisualizerFrame) => void;
+  // Called when a new track starts, for renderers that animate the change
+  onTrackChange?: () => void;
+}
+
+// Renderers keep their animation state in a closure, so each visualizer
+// creates its own instance.
+export type VisualizerRendererFactory = () => VisualizerRenderer;
@@ -0,0 +1,130 @@
+// Captions are stored as WebVTT (https://www.w3.org/TR/webvtt1/). Only what
+// short spoken clips need is supported: cues with a start, an end and text.
+// Cue settings, regions and STYLE blocks are accepted and ignored, and
+// inline tags such as <v Speaker> are stripped for display.
+
+export interface CaptionCue {
+  // Seconds from the start of the clip
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Plenty for a minute of speech; the database checks the same limit
+export const MAX_CAPTIONS_BYTES = 16 * 1024;
+
+export class WebVTTError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebVTTError';
+  }
+}
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/;
+
+function parseTimestamp(value: string): number {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) throw new WebVTTError(`Invalid timestamp "${value}"`);
+  const [, hours = '0', minutes, seconds, millis] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) throw new WebVTTError(`Invalid timestamp "${value}"`);
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+function formatTimestamp(seconds: number): string {
+  const totalMillis = Math.round(Math.max(seconds, 0) * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMillis / 3600000);
+  const minutes = Math.floor(totalMillis / 60000) % 60;
+  const secs = Math.floor(totalMillis / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(totalMillis % 1000, 3)}`;
+}
+
+// Throws WebVTTError for anything that isn't a WebVTT file.
+export function parseWebVTT(source: string): CaptionCue[] {
+  const blocks = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  if (!/^WEBVTT(?:[ \t].*)?$/.test(blocks[0].split('\n')[0])) {
+    throw new WebVTTError('Captions must start with "WEBVTT"');
+  }
+
+  const cues: CaptionCue[] = [];
+  for (const block of blocks.slice(1)) {
+    const lines = block.split('\n').filter(line => line.length);
+    if (!lines.length || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    // An optional cue identifier comes before the timing line
+    const timingIndex = lines[0].includes('-->') ? 0 : 1;
+    const timing = lines[timingIndex];
+    if (!timing?.includes('-->')) throw new WebVTTError(`Expected a cue timing line, got "${lines[0]}"`);
+
+    const [startText, rest] = timing.split('-->').map(part => part.trim());
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.split(/\s+/)[0]);
+    if (end <= start) throw new WebVTTError(`Cue ends before it starts: "${timing}"`);
+
+    const text = lines.slice(timingIndex + 1).join('\n').replace(/<[^>]*>/g, '').trim();
+    if (text) cues.push({ start, end, text: decodeEntities(text) });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export function serializeWebVTT(cues: CaptionCue[]): string {
+  const body = cues.map(cue => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${escapeText(cue.text)}`);
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+}
+
+// The cue showing at `time`; when cues overlap, the one that started last.
+export function findActiveCue(cues: CaptionCue[], time: number): CaptionCue | null {
+  let active: CaptionCue | null = null;
+  for (const cue of cues) {
+    if (cue.start > time) break;
+    if (time < cue.end) active = cue;
+  }
+  return active;
+}
+
+// Spreads a plain-text transcript over a clip, one cue per sentence, each
+// shown for a share of the clip in proportion to its length.
+export function cuesFromTranscript(transcript: string, duration: number): CaptionCue[] {
+  const sentences = (transcript.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]*/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+  const totalLength = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+  if (!totalLength || duration <= 0) return [];
+
+  let start = 0;
+  return sentences.map(sentence => {
+    const end = start + (sentence.length / totalLength) * duration;
+    const cue = { start, end, text: sentence };
+    start = end;
+    return cue;
+  });
+}
+
+function escapeText(text: string): string {
+  // "-->" can't appear in cue text, and a blank line would end the cue
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n{2,}/g, '\n');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+const PREFERENCE_KEY = 'wavelength:captions';
+
+// Captions show unless the listener has turned them off.
+export function loadCaptionsPreference(): boolean {
+  return window.localStorage.getItem(PREFERENCE_KEY) !== 'off';
+}
+
+export function saveCaptionsPreference(enabled: boolean) {
+  if (enabled) window.localStorage.removeItem(PREFERENCE_KEY);
+  else window.localStorage.setItem(PREFERENCE_KEY, 'off');
+}
@@ -0,0 +1,92 @@
+-- Snippet metadata lives next to the `audio-snippets` bucket so the feed can
+-- query, sort and join on it instead of listing raw storage objects.
+create table public.snippets (
+  id uuid primary key default gen_random_uuid(),
+  storage_path text not null unique,
+  created_at timestamptz not null default now(),
+  like_count integer not null default 0 check (like_count >= 0)
+);
+
+create index snippets_created_at_idx on public.snippets (created_at desc, id desc);
+
+-- One row per (snippet, listener) so a listener can only like a snippet once.
+create table public.snippet_likes (
+  snippet_id uuid not null references public.snippets (id) on delete cascade,
+  listener_id text not null,
+  created_at timestamptz not null default now(),
+  primary key (snippet_id, listener_id)
+);
+
+create index snippet_likes_listener_idx on public.snippet_likes (listener_id);
+
+-- Keep snippets.like_count in step with snippet_likes.
+create function public.sync_snippet_like_count()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.snippets set like_count = like_count + 1 where id = new.snippet_id;
+  elsif tg_op = 'DELETE' then
+    update public.snippets set like_count = greatest(like_count - 1, 0) where id = old.snippet_id;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger snippet_likes_count
+after insert or delete on public.snippet_likes
+for each row execute function public.sync_snippet_like_count();
+
+-- Likes are written through this function only, so clients never touch
+-- snippet_likes directly. Returns the snippet's like count after the change.
+create function public.set_snippet_like(p_snippet_id uuid, p_listener_id text, p_liked boolean)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_count integer;
+begin
+  if p_liked then
+    insert into public.snippet_likes (snippet_id, listener_id)
+    values (p_snippet_id, p_listener_id)
+    on conflict do nothing;
+  else
+    delete from public.snippet_likes
+    where snippet_id = p_snippet_id and listener_id = p_listener_id;
+  end if;
+
+  select like_count into new_count from public.snippets where id = p_snippet_id;
+  if new_count is null then
+    raise exception 'snippet % not found', p_snippet_id using errcode = 'P0002';
+  end if;
+  return new_count;
+end;
+$$;
+
+alter table public.snippets enable row level security;
+alter table public.snippet_likes enable row level security;
+
+create policy "Snippets are public"
+on public.snippets for select
+using (true);
+
+create policy "Anyone can register an uploaded snippet"
+on public.snippets for insert
+with check (like_count = 0);
+
+create policy "Likes are public"
+on public.snippet_likes for select
+using (true);
+
+grant execute on function public.set_snippet_like(uuid, text, boolean) to anon, authenticated;
+
+-- Backfill rows for clips uploaded before this table existed.
+insert into public.snippets (storage_path, created_at)
+select name, created_at
+from storage.objects
+where bucket_id = 'audio-snippets'
+  and name not like '%.emptyFolderPlaceholder'
+on conflict (storage_path) do nothing;
@@ -0,0 +1,2 @@
+-- Broadcast new snippet rows so open feeds can queue them without reloading.
+alter publication supabase_realtime add table public.snippets;
@@ -0,0 +1,3 @@
+-- Snippets are now created by the upload route with the service role, which
+-- validates the recording first. Browsers may no longer insert rows directly.
+drop policy "Anyone can register an uploaded snippet" on public.snippets;
@@ -0,0 +1,18 @@
+-- Record the container each snippet was uploaded in so players can skip
+-- formats they can't decode.
+alter table public.snippets
+  add column mime_type text not null default 'audio/webm';
+
+-- Optional extra encodings of the same clip, e.g. written by a transcoding
+-- job. Each entry is {"storage_path": text, "mime_type": text}.
+alter table public.snippets
+  add column alt_renditions jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(alt_renditions) = 'array');
+
+update public.snippets
+set mime_type = case
+  when storage_path like '%.ogg' then 'audio/ogg'
+  when storage_path like '%.m4a' or storage_path like '%.mp4' then 'audio/mp4'
+  when storage_path like '%.wav' then 'audio/wav'
+  else 'audio/webm'
+end;
@@ -0,0 +1,5 @@
+-- Waveform peaks computed at publish time, in the format documented in
+-- src/lib/peaks.ts. Null for snippets uploaded before peaks existed.
+alter table public.snippets
+  add column peaks jsonb
+  check (peaks is null or (peaks->>'v')::int = 1);
@@ -0,0 +1,5 @@
+-- Visualizer style the uploader suggested for their snippet. Listeners who
+-- picked a style of their own keep seeing theirs.
+alter table public.snippets
+  add column visual_style text
+  check (visual_style in ('black-hole', 'spectrum-bars', 'oscilloscope', 'spectrogram'));
@@ -0,0 +1,106 @@
+-- Listeners now have Supabase Auth accounts, anonymous until they add an
+-- email. Every uploaded snippet records who recorded it; clips from before
+-- accounts existed have no owner.
+alter table public.snippets
+  add column owner_id uuid references auth.users (id) on delete set null;
+
+create index snippets_owner_idx on public.snippets (owner_id, created_at desc, id desc);
+
+create policy "Owners can delete their snippets"
+on public.snippets for delete
+to authenticated
+using (owner_id = auth.uid());
+
+-- Likes are keyed by the signed-in user instead of a client-supplied id.
+-- snippet_likes.listener_id keeps its text type so older per-browser ids
+-- remain valid until they are claimed below. Only rows that exist now can
+-- be claimed: every like written from here on is keyed by an auth uid, and
+-- those are public (snippets.owner_id, profiles.id), so they must never be
+-- claimable.
+alter table public.snippet_likes
+  add column legacy boolean not null default false;
+
+update public.snippet_likes set legacy = true;
+
+revoke execute on function public.set_snippet_like(uuid, text, boolean) from anon, authenticated;
+drop function public.set_snippet_like(uuid, text, boolean);
+
+create function public.set_snippet_like(p_snippet_id uuid, p_liked boolean)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listener text := auth.uid()::text;
+  new_count integer;
+begin
+  if listener is null then
+    raise exception 'not signed in' using errcode = '28000';
+  end if;
+
+  if p_liked then
+    insert into public.snippet_likes (snippet_id, listener_id)
+    values (p_snippet_id, listener)
+    on conflict do nothing;
+  else
+    delete from public.snippet_likes
+    where snippet_id = p_snippet_id and listener_id = listener;
+  end if;
+
+  select like_count into new_count from public.snippets where id = p_snippet_id;
+  if new_count is null then
+    raise exception 'snippet % not found', p_snippet_id using errcode = 'P0002';
+  end if;
+  return new_count;
+end;
+$$;
+
+-- Legacy ids are the only proof of ownership claim_listener_likes gets, so
+-- they must stop being readable: listeners now only see their own likes.
+drop policy "Likes are public" on public.snippet_likes;
+
+create policy "Listeners can read their own likes"
+on public.snippet_likes for select
+to authenticated
+using (listener_id = auth.uid()::text);
+
+-- Moves likes made under a pre-account browser id to the signed-in user.
+-- Only legacy rows move. Returns how many likes were moved.
+create function public.claim_listener_likes(p_listener_id text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listener text := auth.uid()::text;
+  moved integer;
+begin
+  if listener is null then
+    raise exception 'not signed in' using errcode = '28000';
+  end if;
+  -- An account's id is never a legacy browser id, whatever its rows say
+  if exists (select 1 from auth.users where id::text = p_listener_id) then
+    return 0;
+  end if;
+
+  -- Snippets liked under both ids keep a single like
+  delete from public.snippet_likes old_like
+  where old_like.listener_id = p_listener_id
+    and old_like.legacy
+    and exists (
+      select 1 from public.snippet_likes
+      where snippet_id = old_like.snippet_id and listener_id = listener
+    );
+
+  update public.snippet_likes
+  set listener_id = listener, legacy = false
+  where listener_id = p_listener_id and legacy;
+  get diagnostics moved = row_count;
+  return moved;
+end;
+$$;
+
+grant execute on function public.set_snippet_like(uuid, boolean) to authenticated;
+grant execute on function public.claim_listener_likes(text) to authenticated;
@@ -0,0 +1,87 @@
+-- Public creator profiles, one per auth user, created automatically with a
+-- generated handle the listener can change later.
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  handle text not null unique check (handle ~ '^[a-z0-9_]{3,20}$'),
+  avatar_color text not null check (avatar_color ~ '^#[0-9a-f]{6}$'),
+  -- One of the creator's own snippets, played first on their profile
+  intro_snippet_id uuid references public.snippets (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Lets the feed embed the owner's profile alongside each snippet
+alter table public.snippets
+  add constraint snippets_owner_profile_fkey
+  foreign key (owner_id) references public.profiles (id) on delete set null;
+
+create function public.create_profile_for_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, handle, avatar_color)
+  values (
+    new.id,
+    'listener_' || substr(replace(new.id::text, '-', ''), 1, 10),
+    (array['#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899', '#ef4444'])[1 + floor(random() * 8)::int]
+  )
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+after insert on auth.users
+for each row execute function public.create_profile_for_user();
+
+-- Profiles for accounts created before this migration
+insert into public.profiles (id, handle, avatar_color)
+select id, 'listener_' || substr(replace(id::text, '-', ''), 1, 10), '#8b5cf6'
+from auth.users
+on conflict do nothing;
+
+alter table public.profiles enable row level security;
+
+create policy "Profiles are public"
+on public.profiles for select
+using (true);
+
+create policy "Users can update their own profile"
+on public.profiles for update
+to authenticated
+using (id = auth.uid())
+with check (
+  id = auth.uid()
+  and (
+    intro_snippet_id is null
+    or exists (select 1 from public.snippets where id = intro_snippet_id and owner_id = auth.uid())
+  )
+);
+
+create table public.follows (
+  follower_id uuid not null references public.profiles (id) on delete cascade,
+  followee_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, followee_id),
+  check (follower_id <> followee_id)
+);
+
+create index follows_followee_idx on public.follows (followee_id);
+
+alter table public.follows enable row level security;
+
+create policy "Follows are public"
+on public.follows for select
+using (true);
+
+create policy "Users can follow as themselves"
+on public.follows for insert
+to authenticated
+with check (follower_id = auth.uid());
+
+create policy "Users can unfollow as themselves"
+on public.follows for delete
+to authenticated
+using (follower_id = auth.uid());
@@ -0,0 +1,34 @@
+-- Voice replies. A reply is an ordinary snippet with a parent; threads are
+-- one level deep, so parent_id always points at a top-level snippet (the API
+-- route resolves replies-to-replies to their thread). Deleting a snippet
+-- deletes its thread.
+alter table public.snippets
+  add column parent_id uuid references public.snippets (id) on delete cascade,
+  add column reply_count integer not null default 0 check (reply_count >= 0);
+
+-- Threads play oldest first
+create index snippets_parent_idx on public.snippets (parent_id, created_at, id)
+  where parent_id is not null;
+
+-- The main feed only lists top-level snippets
+create index snippets_top_level_idx on public.snippets (created_at desc, id desc)
+  where parent_id is null;
+
+-- Keep snippets.reply_count in step with the replies pointing at it.
+create function public.sync_snippet_reply_count()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' and new.parent_id is not null then
+    update public.snippets set reply_count = reply_count + 1 where id = new.parent_id;
+  elsif tg_op = 'DELETE' and old.parent_id is not null then
+    update public.snippets set reply_count = greatest(reply_count - 1, 0) where id = old.parent_id;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger snippets_reply_count
+after insert or delete on public.snippets
+for each row execute function public.sync_snippet_reply_count();
@@ -0,0 +1,98 @@
+-- Listener reports, automatic hiding and the moderation queue.
+--
+-- Each listener can report a snippet once. Once a snippet collects
+-- moderation_settings.report_threshold reports since it was last reviewed it
+-- is hidden from everyone but its owner until a moderator restores or
+-- deletes it.
+
+create table public.moderation_settings (
+  -- Single row
+  id boolean primary key default true check (id),
+  report_threshold integer not null default 3 check (report_threshold > 0)
+);
+
+insert into public.moderation_settings default values;
+
+alter table public.moderation_settings enable row level security;
+
+-- Moderators are added by hand, e.g. from the SQL editor:
+--   insert into public.moderators (user_id) values ('<auth user id>');
+create table public.moderators (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.moderators enable row level security;
+
+create table public.banned_users (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  banned_by uuid references auth.users (id) on delete set null,
+  banned_at timestamptz not null default now()
+);
+
+alter table public.banned_users enable row level security;
+
+alter table public.snippets
+  -- Reports since the last moderator review
+  add column report_count integer not null default 0 check (report_count >= 0),
+  add column hidden boolean not null default false,
+  add column reviewed_at timestamptz;
+
+create index snippets_reported_idx on public.snippets (report_count desc, created_at desc)
+  where report_count > 0;
+
+create table public.snippet_reports (
+  snippet_id uuid not null references public.snippets (id) on delete cascade,
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null check (reason in ('spam', 'harassment', 'hate', 'sexual', 'violence', 'other')),
+  created_at timestamptz not null default now(),
+  primary key (snippet_id, reporter_id)
+);
+
+alter table public.snippet_reports enable row level security;
+
+-- Hidden snippets are only visible to their owner (and the service role)
+drop policy "Snippets are public" on public.snippets;
+
+create policy "Visible snippets are public"
+on public.snippets for select
+using (not hidden or owner_id = auth.uid());
+
+-- Reports are written through this function only. Reporting the same
+-- snippet twice is a no-op. Returns whether the snippet is now hidden.
+create function public.report_snippet(p_snippet_id uuid, p_reason text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reporter uuid := auth.uid();
+  threshold integer;
+  is_hidden boolean;
+begin
+  if reporter is null then
+    raise exception 'not signed in' using errcode = '28000';
+  end if;
+
+  insert into public.snippet_reports (snippet_id, reporter_id, reason)
+  values (p_snippet_id, reporter, p_reason)
+  on conflict do nothing;
+
+  if found then
+    select report_threshold into threshold from public.moderation_settings;
+    update public.snippets
+    set report_count = report_count + 1,
+        hidden = hidden or report_count + 1 >= threshold
+    where id = p_snippet_id;
+  end if;
+
+  select hidden into is_hidden from public.snippets where id = p_snippet_id;
+  if is_hidden is null then
+    raise exception 'snippet % not found', p_snippet_id using errcode = 'P0002';
+  end if;
+  return is_hidden;
+end;
+$$;
+
+grant execute on function public.report_snippet(uuid, text) to authenticated;
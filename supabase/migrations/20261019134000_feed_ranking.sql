@@ -0,0 +1,99 @@
+-- Ranked "For you" feed. Snippets are scored on recency, likes, how often
+-- they're listened to the end and how often they're skipped, plus a seeded
+-- random term so listeners explore beyond the top of the ranking. The same
+-- seed, data and p_now always give the same order.
+
+-- Play outcomes reported by the feed; see recordSnippetPlay in src/lib/ranking.ts
+alter table public.snippets
+  add column play_count integer not null default 0 check (play_count >= 0),
+  add column completion_count integer not null default 0 check (completion_count >= 0),
+  add column skip_count integer not null default 0 check (skip_count >= 0);
+
+create function public.record_snippet_play(p_snippet_id uuid, p_outcome text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in' using errcode = '28000';
+  end if;
+  if p_outcome not in ('complete', 'partial', 'skip') then
+    raise exception 'unknown play outcome %', p_outcome using errcode = '22023';
+  end if;
+
+  update public.snippets
+  set play_count = play_count + 1,
+      completion_count = completion_count + (p_outcome = 'complete')::int,
+      skip_count = skip_count + (p_outcome = 'skip')::int
+  where id = p_snippet_id;
+end;
+$$;
+
+grant execute on function public.record_snippet_play(uuid, text) to authenticated;
+
+-- Single row of tunable weights. Change them in place, e.g.
+--   update public.ranking_weights set exploration_weight = 0.5;
+create table public.ranking_weights (
+  id boolean primary key default true check (id),
+  recency_weight double precision not null default 1.0,
+  -- Hours for the recency term to fall to half
+  recency_half_life_hours double precision not null default 24 check (recency_half_life_hours > 0),
+  like_weight double precision not null default 0.4,
+  completion_weight double precision not null default 0.8,
+  skip_weight double precision not null default 0.8,
+  exploration_weight double precision not null default 0.3
+);
+
+insert into public.ranking_weights default values;
+
+alter table public.ranking_weights enable row level security;
+
+create policy "Ranking weights are public"
+on public.ranking_weights for select
+using (true);
+
+-- Uniform value in [0, 1) derived from the seed and snippet id.
+create function public.seeded_random(p_seed integer, p_id uuid)
+returns double precision
+language sql
+immutable
+as $$
+  select ('x' || lpad(substr(md5(p_seed::text || ':' || p_id::text), 1, 8), 16, '0'))::bit(64)::bigint
+    / 4294967296.0;
+$$;
+
+-- One page of the ranked feed. Rates are smoothed towards one half so a
+-- snippet with a single play isn't judged on it alone.
+create function public.ranked_snippets(
+  p_seed integer,
+  p_limit integer default 20,
+  p_offset integer default 0,
+  p_now timestamptz default now()
+)
+returns setof public.snippets
+language sql
+stable
+as $$
+  select s.*
+  from public.snippets s
+  cross join public.ranking_weights w
+  where s.parent_id is null
+    and not s.hidden
+    -- Pages for one p_now stay put as new snippets arrive
+    and s.created_at <= p_now
+  order by
+    w.recency_weight
+      * exp(-ln(2) * greatest(extract(epoch from p_now - s.created_at), 0) / 3600 / w.recency_half_life_hours)
+    + w.like_weight * ln(1 + s.like_count)
+    + w.completion_weight * (s.completion_count + 1)::double precision / (s.play_count + 2)
+    - w.skip_weight * (s.skip_count + 1)::double precision / (s.play_count + 2)
+    + w.exploration_weight * public.seeded_random(p_seed, s.id)
+    desc,
+    s.id
+  limit p_limit
+  offset p_offset;
+$$;
+
+grant execute on function public.ranked_snippets(integer, integer, integer, timestamptz) to anon, authenticated;
@@ -0,0 +1,58 @@
+-- Playback analytics. The feed batches events and posts them to
+-- /api/events, which writes them here with the service role; the event model
+-- is documented in src/lib/analytics.ts.
+create table public.playback_events (
+  id bigint generated always as identity primary key,
+  snippet_id uuid not null references public.snippets (id) on delete cascade,
+  -- Null once the listener's account is deleted
+  user_id uuid references auth.users (id) on delete set null,
+  -- One per page load, to group a listener's events
+  session_id text not null,
+  type text not null check (type in ('impression', 'play', 'pause', 'seek', 'skip', 'complete', 'like')),
+  occurred_at timestamptz not null,
+  received_at timestamptz not null default now(),
+  -- play, pause and seek: where in the clip it happened
+  position_ms integer check (position_ms >= 0),
+  -- seek: where the listener jumped to
+  seek_to_ms integer check (seek_to_ms >= 0),
+  -- skip and complete: time actually spent listening, pauses excluded
+  listened_ms integer check (listened_ms >= 0),
+  -- like: whether the snippet was liked or unliked
+  liked boolean
+);
+
+create index playback_events_snippet_idx on public.playback_events (snippet_id, type);
+-- For /api/events' per-listener rate limit
+create index playback_events_user_idx on public.playback_events (user_id, received_at desc);
+
+-- No policies: only the service role reads or writes events directly.
+alter table public.playback_events enable row level security;
+
+-- Per-snippet totals for the signed-in creator's own snippets. Every listen
+-- ends in exactly one skip or complete, so together they count listens.
+create function public.my_snippet_stats()
+returns table (
+  snippet_id uuid,
+  impressions bigint,
+  completions bigint,
+  skips bigint,
+  listened_ms bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.snippet_id,
+    count(*) filter (where e.type = 'impression'),
+    count(*) filter (where e.type = 'complete'),
+    count(*) filter (where e.type = 'skip'),
+    coalesce(sum(e.listened_ms), 0)
+  from public.playback_events e
+  join public.snippets s on s.id = e.snippet_id
+  where s.owner_id = auth.uid()
+  group by e.snippet_id;
+$$;
+
+grant execute on function public.my_snippet_stats() to authenticated;
@@ -0,0 +1,31 @@
+-- Hashtag channels. Tags are set at publish time; the format is enforced
+-- here and in src/lib/tags.ts: lowercase letters, digits and underscores,
+-- without the leading #.
+alter table public.snippets
+  add column tags text[] not null default '{}'
+    check (cardinality(tags) <= 5 and array_to_string(tags, ' ') ~ '^([a-z0-9_]{1,32}( |$))*$');
+
+-- Serves the `tags @> array[...]` filter behind each channel
+create index snippets_tags_idx on public.snippets using gin (tags);
+
+-- Tags on the most top-level snippets published recently.
+create function public.trending_tags(
+  p_since timestamptz default now() - interval '7 days',
+  p_limit integer default 10
+)
+returns table (tag text, snippet_count bigint)
+language sql
+stable
+as $$
+  select t.tag, count(*) as snippet_count
+  from public.snippets s
+  cross join unnest(s.tags) as t (tag)
+  where s.parent_id is null
+    and not s.hidden
+    and s.created_at >= p_since
+  group by t.tag
+  order by snippet_count desc, t.tag
+  limit p_limit;
+$$;
+
+grant execute on function public.trending_tags(timestamptz, integer) to anon, authenticated;
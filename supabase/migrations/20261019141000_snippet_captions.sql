@@ -0,0 +1,7 @@
+-- Caption tracks. `captions` holds a WebVTT file (see src/lib/webvtt.ts),
+-- written by the uploader or generated by the transcription provider the
+-- upload route is configured with.
+alter table public.snippets
+  add column captions text check (octet_length(captions) <= 16384 and captions like 'WEBVTT%'),
+  add column captions_source text check (captions_source in ('uploader', 'transcription')),
+  add constraint snippets_captions_paired_check check ((captions is null) = (captions_source is null));
@@ -0,0 +1,75 @@
+-- One play outcome per (snippet, listener), stored the way likes are, so
+-- calling record_snippet_play over and over can't inflate a snippet's
+-- completion or skip counts and steer the ranking. A listener's latest
+-- outcome replaces their earlier one.
+create table public.snippet_plays (
+  snippet_id uuid not null references public.snippets (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  outcome text not null check (outcome in ('complete', 'partial', 'skip')),
+  played_at timestamptz not null default now(),
+  primary key (snippet_id, user_id)
+);
+
+create index snippet_plays_user_idx on public.snippet_plays (user_id);
+
+-- No policies: plays are written through record_snippet_play only.
+alter table public.snippet_plays enable row level security;
+
+-- Keep the counts ranked_snippets reads in step with snippet_plays.
+create function public.sync_snippet_play_counts()
+returns trigger
+language plpgsql
+as $$
+declare
+  target uuid := coalesce(new.snippet_id, old.snippet_id);
+begin
+  update public.snippets s
+  set play_count = c.plays,
+      completion_count = c.completions,
+      skip_count = c.skips
+  from (
+    select count(*)::int as plays,
+           (count(*) filter (where outcome = 'complete'))::int as completions,
+           (count(*) filter (where outcome = 'skip'))::int as skips
+    from public.snippet_plays
+    where snippet_id = target
+  ) c
+  where s.id = target;
+  return null;
+end;
+$$;
+
+create trigger snippet_plays_counts
+after insert or update or delete on public.snippet_plays
+for each row execute function public.sync_snippet_play_counts();
+
+create or replace function public.record_snippet_play(p_snippet_id uuid, p_outcome text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in' using errcode = '28000';
+  end if;
+  if p_outcome not in ('complete', 'partial', 'skip') then
+    raise exception 'unknown play outcome %', p_outcome using errcode = '22023';
+  end if;
+  -- Plays of a snippet deleted mid-listen are dropped, as before
+  if not exists (select 1 from public.snippets where id = p_snippet_id) then
+    return;
+  end if;
+
+  insert into public.snippet_plays (snippet_id, user_id, outcome)
+  values (p_snippet_id, auth.uid(), p_outcome)
+  on conflict (snippet_id, user_id) do update
+  set outcome = excluded.outcome,
+      played_at = now()
+  where snippet_plays.outcome is distinct from excluded.outcome;
+end;
+$$;
+
+-- Counts recorded so far can't be traced to listeners, so they start over.
+update public.snippets
+set play_count = 0, completion_count = 0, skip_count = 0;
@@ -0,0 +1,81 @@
+-- Anonymous accounts cost nothing to create, so they mustn't be enough on
+-- their own to hide a snippet or to get around a ban.
+
+-- Anonymous reports still reach the moderation queue, but only reports from
+-- listeners who have added an email count towards hiding a snippet.
+alter table public.snippet_reports
+  add column anonymous boolean not null default false;
+
+create or replace function public.report_snippet(p_snippet_id uuid, p_reason text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reporter uuid := auth.uid();
+  reporter_anonymous boolean := coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false);
+  threshold integer;
+  counted integer;
+  is_hidden boolean;
+begin
+  if reporter is null then
+    raise exception 'not signed in' using errcode = '28000';
+  end if;
+
+  insert into public.snippet_reports (snippet_id, reporter_id, reason, anonymous)
+  values (p_snippet_id, reporter, p_reason, reporter_anonymous)
+  on conflict do nothing;
+
+  if found then
+    update public.snippets
+    set report_count = report_count + 1
+    where id = p_snippet_id;
+
+    if not reporter_anonymous then
+      select report_threshold into threshold from public.moderation_settings;
+      -- Reports since the last review, as in report_count
+      select count(*) into counted
+      from public.snippet_reports r
+      join public.snippets s on s.id = r.snippet_id
+      where r.snippet_id = p_snippet_id
+        and not r.anonymous
+        and (s.reviewed_at is null or r.created_at > s.reviewed_at);
+
+      update public.snippets
+      set hidden = true
+      where id = p_snippet_id and counted >= threshold;
+    end if;
+  end if;
+
+  select hidden into is_hidden from public.snippets where id = p_snippet_id;
+  if is_hidden is null then
+    raise exception 'snippet % not found', p_snippet_id using errcode = 'P0002';
+  end if;
+  return is_hidden;
+end;
+$$;
+
+-- Network addresses seen publishing, keyed by an HMAC of the address so raw
+-- IPs aren't stored. Written by /api/snippets with the service role.
+create table public.user_addresses (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  address_hash text not null,
+  last_seen_at timestamptz not null default now(),
+  primary key (user_id, address_hash)
+);
+
+create index user_addresses_hash_idx on public.user_addresses (address_hash);
+
+alter table public.user_addresses enable row level security;
+
+-- Banning a user also bans the addresses they published from, for anonymous
+-- accounts only: a listener sharing the network can still publish once they
+-- add an email.
+create table public.banned_addresses (
+  address_hash text primary key,
+  banned_user_id uuid references auth.users (id) on delete set null,
+  banned_at timestamptz not null default now()
+);
+
+alter table public.banned_addresses enable row level security;
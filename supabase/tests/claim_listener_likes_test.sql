@@ -0,0 +1,51 @@
+-- Checks claim_listener_likes only moves likes made under a legacy
+-- per-browser id, never another account's likes. Run with `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'a@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'b@example.com');
+
+insert into public.snippets (id, storage_path)
+values ('00000000-0000-0000-0000-000000000001', 'claim-test/1.webm');
+
+-- B's like as an account, and a like from before accounts existed
+insert into public.snippet_likes (snippet_id, listener_id, legacy) values
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000b', false),
+  ('00000000-0000-0000-0000-000000000001', 'browser-1234', true);
+
+-- Act as user A
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}';
+
+select is(
+  public.claim_listener_likes('00000000-0000-0000-0000-00000000000b'),
+  0,
+  'claiming another account''s uid moves nothing'
+);
+
+select is(
+  public.claim_listener_likes('browser-1234'),
+  1,
+  'a legacy browser id can be claimed'
+);
+
+reset role;
+
+select is(
+  (select count(*)::int from public.snippet_likes where listener_id = '00000000-0000-0000-0000-00000000000b'),
+  1,
+  'the other account keeps its like'
+);
+
+select is(
+  (select count(*)::int from public.snippet_likes where listener_id = 'browser-1234'),
+  0,
+  'the legacy like moved to the caller'
+);
+
+select * from finish();
+rollback;
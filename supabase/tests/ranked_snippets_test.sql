@@ -0,0 +1,59 @@
+-- Checks the "For you" ranking is deterministic: the same seed and p_now
+-- give the same order, and paging through it neither skips nor repeats,
+-- even as new snippets are posted.
+-- Run with `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into public.snippets (storage_path, created_at, like_count)
+select 'ranking-test/' || i || '.webm', '2026-10-19T12:00:00Z'::timestamptz - i * interval '1 hour', i % 4
+from generate_series(1, 30) as i;
+
+select results_eq(
+  $$ select id from public.ranked_snippets(42, 30, 0, '2026-10-19T12:00:00Z') $$,
+  $$ select id from public.ranked_snippets(42, 30, 0, '2026-10-19T12:00:00Z') $$,
+  'the same seed and p_now give the same order'
+);
+
+select results_eq(
+  $$
+    select r.id
+    from (values (0), (10), (20)) as page (page_offset)
+    cross join lateral public.ranked_snippets(42, 10, page.page_offset, '2026-10-19T12:00:00Z')
+      with ordinality as r
+    order by page.page_offset, r.ordinality
+  $$,
+  $$ select id from public.ranked_snippets(42, 30, 0, '2026-10-19T12:00:00Z') $$,
+  'pages with a fixed p_now join up into the full order'
+);
+
+select isnt(
+  (select array_agg(id) from public.ranked_snippets(42, 30, 0, '2026-10-19T12:00:00Z')),
+  (select array_agg(id) from public.ranked_snippets(7, 30, 0, '2026-10-19T12:00:00Z')),
+  'a different seed explores a different order'
+);
+
+select is(
+  public.seeded_random(42, '00000000-0000-0000-0000-000000000001'),
+  public.seeded_random(42, '00000000-0000-0000-0000-000000000001'),
+  'seeded_random is stable for a seed and id'
+);
+
+-- A snippet posted after p_now mustn't shift pages already handed out
+create temporary table ranking_before as
+select r.id, r.ordinality
+from public.ranked_snippets(42, 30, 0, '2026-10-19T12:00:00Z') with ordinality as r;
+
+insert into public.snippets (storage_path, created_at)
+values ('ranking-test/later.webm', '2026-10-19T12:00:01Z');
+
+select results_eq(
+  $$ select id from public.ranked_snippets(42, 30, 0, '2026-10-19T12:00:00Z') $$,
+  $$ select id from ranking_before order by ordinality $$,
+  'snippets posted after p_now are left out'
+);
+
+select * from finish();
+rollback;